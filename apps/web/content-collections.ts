@@ -4,14 +4,61 @@ import rehypePrettyCode, { type Options } from "rehype-pretty-code";
 import rehypeAutolinkHeadings from "rehype-autolink-headings";
 import { codeImport } from "remark-code-import";
 import { visit } from "unist-util-visit";
-import rehypeSlug from "rehype-slug";
 import remarkGfm from "remark-gfm";
+import { resolve } from "node:path";
 import { z } from "zod";
 
+import type { BlogIndexEntry, DocIndexEntry } from "./src/lib/core/types/content-index";
 import type { BlogConfig } from "./src/lib/core/types/blog";
+import {
+  splitLocalizedSlug,
+  writeContentIndex,
+} from "./src/lib/core/utils/write-content-index";
+import { getDocumentSearchSections } from "./src/lib/core/utils/search-sections";
+import { getVisibleContent } from "./src/lib/core/utils/publication";
+import { getSlugCollisions, slugify } from "./src/lib/core/utils/slugify";
+import { getRelatedPosts } from "./src/lib/core/utils/related-posts";
+import { getFeedIndex } from "./src/lib/core/utils/feed-index";
+import { getSeriesIndex } from "./src/lib/core/utils/series-index";
+import { getFileUpdatedAt } from "./src/lib/core/utils/file-dates";
 import { rehypeNpmCommand } from "./src/lib/core/utils/rehype-npm-command";
+import { rehypeHeadingIds } from "./src/lib/core/utils/rehype-heading-ids";
 import { getContentLayerCodeTheme } from "./src/lib/core/utils/code-theme";
 import { blogConfig } from "./src/config/blog";
+import { ogConfig } from "./src/config/og";
+
+// Dates are kept as written in the frontmatter, but one that `new Date()`
+// cannot read fails the build instead of publishing the content at random
+const dateString = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date");
+
+// Tags are served at their slug, so tags of a locale that only share it, like
+// `C++` and `C#`, would be listed on the same page
+function assertUniqueTagSlugs(
+  blogs: { slugAsParams: string; tags: string[] }[]
+) {
+  const tagsByLocale = new Map<string, string[]>();
+
+  for (const blog of blogs) {
+    const { locale } = splitLocalizedSlug(blog.slugAsParams);
+    const tags = tagsByLocale.get(locale) ?? [];
+
+    tagsByLocale.set(locale, [...tags, ...blog.tags]);
+  }
+
+  const collisions = Array.from(tagsByLocale).flatMap(([locale, tags]) =>
+    getSlugCollisions(tags).map(
+      ({ slug, labels }) => `[${locale}] ${labels.join(", ")} -> "${slug}"`
+    )
+  );
+
+  if (collisions.length > 0) {
+    throw new Error(
+      `Tags sharing the same slug, rename them:\n  ${collisions.join("\n  ")}`
+    );
+  }
+}
 
 // =============================================================================
 // DOCS COLLECTION
@@ -33,12 +80,16 @@ const docs = defineCollection({
       })
       .optional(),
     toc: z.boolean().default(true),
+    og_template: z.enum(ogConfig.templates).optional(),
+    translationKey: z.string().optional(),
+    draft: z.boolean().default(false),
+    publishAt: dateString.optional(),
   }),
   transform: async (doc, context) => {
     const mdx = await compileMDX(context, doc, {
       remarkPlugins: [remarkGfm, codeImport],
       rehypePlugins: [
-        rehypeSlug,
+        rehypeHeadingIds,
         () => (tree: any) => {
           visit(tree, (node: any) => {
             if (node?.type === "element" && node?.tagName === "pre") {
@@ -111,8 +162,13 @@ const docs = defineCollection({
       ],
     });
 
-    // Generate slug from file path (normalize Windows backslashes to forward slashes)
-    const normalizedPath = doc._meta.path.replace(/\\/g, "/");
+    // Generate slug from file path (normalize Windows backslashes to forward slashes
+    // and transliterate file names with diacritics)
+    const normalizedPath = doc._meta.path
+      .replace(/\\/g, "/")
+      .split("/")
+      .map(slugify)
+      .join("/");
     // Remove "index" from path if it's the last segment (for index pages)
     const cleanPath = normalizedPath.replace(/\/index$/, "").replace(/^index$/, "");
     const slugAsParams = cleanPath || normalizedPath.split("/")[0]; // Fallback to locale for root index
@@ -122,6 +178,13 @@ const docs = defineCollection({
       mdx,
       slug: cleanPath ? `/${cleanPath}` : `/${normalizedPath.split("/")[0]}`,
       slugAsParams,
+      // Translations sharing a path are grouped without a key
+      translationKey:
+        doc.translationKey ?? splitLocalizedSlug(slugAsParams).slug,
+      // Last change of the file, compared between translations
+      updatedAt: getFileUpdatedAt(
+        resolve("../content/docs", doc._meta.filePath)
+      ),
       // Compatibility with old Contentlayer structure
       _id: doc._meta.filePath,
       _raw: {
@@ -137,6 +200,29 @@ const docs = defineCollection({
       },
     };
   },
+  onSuccess: async (allDocs) => {
+    // The indexes are bundled for the client, drafts and scheduled docs are
+    // left out of production builds
+    const docs = getVisibleContent(allDocs);
+
+    const entries = docs
+      .map(
+        (doc): DocIndexEntry => ({
+          ...splitLocalizedSlug(doc.slugAsParams),
+          title: doc.title,
+          excerpt: doc.description,
+          translationKey: doc.translationKey,
+        })
+      )
+      .sort((a, b) => a.slug.localeCompare(b.slug));
+
+    await writeContentIndex("docs", entries);
+
+    await writeContentIndex(
+      "docsSearch",
+      docs.flatMap((doc) => getDocumentSearchSections("docs", doc))
+    );
+  },
 });
 
 // =============================================================================
@@ -150,9 +236,10 @@ const blogs = defineCollection({
   schema: z.object({
     title: z.string(),
     excerpt: z.string(),
-    date: z.string(),
+    date: dateString,
     author_id: z.string().optional(),
     og_image: z.string().optional(),
+    og_template: z.enum(ogConfig.templates).optional(),
     links: z
       .object({
         doc: z.string().optional(),
@@ -162,12 +249,17 @@ const blogs = defineCollection({
       })
       .optional(),
     tags: z.array(z.string()),
+    series: z.string().optional(),
+    seriesOrder: z.number().int().positive().optional(),
+    translationKey: z.string().optional(),
+    draft: z.boolean().default(false),
+    publishAt: dateString.optional(),
   }),
   transform: async (doc, context) => {
     const mdx = await compileMDX(context, doc, {
       remarkPlugins: [remarkGfm, codeImport],
       rehypePlugins: [
-        rehypeSlug,
+        rehypeHeadingIds,
         () => (tree: any) => {
           visit(tree, (node: any) => {
             if (node?.type === "element" && node?.tagName === "pre") {
@@ -240,8 +332,13 @@ const blogs = defineCollection({
       ],
     });
 
-    // Generate slug from file path (normalize Windows backslashes to forward slashes)
-    const normalizedPath = doc._meta.path.replace(/\\/g, "/");
+    // Generate slug from file path (normalize Windows backslashes to forward slashes
+    // and transliterate file names with diacritics)
+    const normalizedPath = doc._meta.path
+      .replace(/\\/g, "/")
+      .split("/")
+      .map(slugify)
+      .join("/");
     const pathParts = normalizedPath.split("/");
     const slugAsParams = pathParts.join("/");
 
@@ -272,8 +369,14 @@ const blogs = defineCollection({
       mdx,
       slug: `/${normalizedPath}`,
       slugAsParams,
+      translationKey:
+        doc.translationKey ?? splitLocalizedSlug(slugAsParams).slug,
+      seriesSlug: doc.series ? slugify(doc.series) : undefined,
       readTimeInMinutes,
       author,
+      updatedAt: getFileUpdatedAt(
+        resolve("../content/blog", doc._meta.filePath)
+      ),
       // Compatibility with old Contentlayer structure
       _id: doc._meta.filePath,
       _raw: {
@@ -289,6 +392,72 @@ const blogs = defineCollection({
       },
     };
   },
+  onSuccess: async (allBlogs) => {
+    assertUniqueTagSlugs(allBlogs);
+
+    const blogs = getVisibleContent(allBlogs);
+
+    const entries = blogs
+      .map(
+        (blog): BlogIndexEntry => ({
+          ...splitLocalizedSlug(blog.slugAsParams),
+          title: blog.title,
+          excerpt: blog.excerpt,
+          translationKey: blog.translationKey,
+          date: blog.date,
+          tags: blog.tags,
+          readTime: blog.readTimeInMinutes,
+        })
+      )
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+    await writeContentIndex("blogs", entries);
+
+    await writeContentIndex(
+      "blogsSearch",
+      blogs.flatMap((blog) => getDocumentSearchSections("blog", blog))
+    );
+
+    await writeContentIndex("blogsSeries", getSeriesIndex(blogs));
+
+    await writeContentIndex(
+      "feeds",
+      getFeedIndex(
+        blogs.map((blog) => ({
+          ...splitLocalizedSlug(blog.slugAsParams),
+          date: blog.date,
+          tags: blog.tags,
+          authorId: blog.author?.id,
+          content: JSON.stringify([
+            blog.slugAsParams,
+            blog.title,
+            blog.excerpt,
+            blog.date,
+            blog.tags,
+            blog.author,
+            blog.content,
+          ]),
+        }))
+      )
+    );
+
+    await writeContentIndex(
+      "blogsRelated",
+      getRelatedPosts(
+        blogs.map((blog) => ({
+          ...splitLocalizedSlug(blog.slugAsParams),
+          date: blog.date,
+          tags: blog.tags,
+          text: [
+            blog.title,
+            ...getDocumentSearchSections("blog", blog).map(
+              (section) => `${section.heading ?? ""} ${section.content}`
+            ),
+          ].join(" "),
+        }))
+      )
+    );
+  },
 });
 
 // =============================================================================
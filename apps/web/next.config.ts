@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 import { withContentCollections } from "@content-collections/next";
 import createNextIntlPlugin from "next-intl/plugin";
 
+import { getOgVersion } from "./src/lib/core/utils/og-version";
+
 const withNextIntl = createNextIntlPlugin("./src/i18n/request.ts");
 
 const nextConfig: NextConfig = {
@@ -14,6 +16,12 @@ const nextConfig: NextConfig = {
   // React Compiler (stable in Next.js 16)
   reactCompiler: true,
 
+  // Workspace packages ship TypeScript sources
+  transpilePackages: ["@blog/i18n"],
+
+  // Shiki lazy-loads grammars and themes at runtime, keep it out of the bundle
+  serverExternalPackages: ["shiki"],
+
   // TypeScript
   typescript: {
     ignoreBuildErrors: true,
@@ -24,6 +32,27 @@ const nextConfig: NextConfig = {
     formats: ["image/avif", "image/webp"],
   },
 
+  // Hashed once here instead of reading the OG templates and fonts on every
+  // request, see `getOgVersion`
+  env: {
+    OG_VERSION: getOgVersion(),
+  },
+
+  // OG images rendered before the build are named after their content hash
+  async headers() {
+    return [
+      {
+        source: "/og/:file*",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "public, max-age=31536000, immutable",
+          },
+        ],
+      },
+    ];
+  },
+
   // Experimental features for performance
   experimental: {
     turbopackFileSystemCacheForBuild: true,
@@ -0,0 +1,214 @@
+/**
+ * Reports what is missing for every configured locale and exits with a
+ * non-zero code when anything is, so it can run in CI:
+ * - message keys of the default catalog that a locale does not translate
+ * - keys a locale defines that the default catalog does not have
+ * - keys used with `t('…')` that the default catalog does not have
+ * - `LocalizedRecord`s of the docs and blog config without the locale
+ *
+ * Usage: bun run check:translations
+ */
+
+import { readdir, readFile } from 'node:fs/promises'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { defaultLocale, locales } from '@blog/i18n'
+
+import type { LocaleOptions, LocalizedRecord } from '@/lib/core/types/i18n'
+import type { NavItem, NavItemWithChildren } from '@/lib/core/types/nav'
+import { blogConfig } from '@/config/blog'
+import { docsConfig } from '@/config/docs'
+
+import { getUnknownKeys } from './translation-keys'
+
+interface Messages {
+  [key: string]: string | Messages
+}
+
+interface LocalizedField {
+  name: string
+  record: LocalizedRecord
+}
+
+interface Coverage {
+  locale: LocaleOptions
+  messages: { translated: number; total: number }
+  config: { translated: number; total: number }
+}
+
+const sourceDirectory = fileURLToPath(new URL('../src', import.meta.url))
+
+// Read as plain JSON, the loader of `@blog/i18n` is server-only
+async function loadMessages(locale: LocaleOptions): Promise<Messages> {
+  const catalog = await import(`@blog/i18n/messages/${locale}.json`)
+
+  return catalog.default
+}
+
+function flattenMessages(messages: Messages, prefix = ''): string[] {
+  return Object.entries(messages).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+
+    return typeof value === 'string' ? [path] : flattenMessages(value, path)
+  })
+}
+
+async function getSourceFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+
+  const files = await Promise.all(
+    entries.map(entry => {
+      const path = join(directory, entry.name)
+
+      if (entry.isDirectory()) {
+        return getSourceFiles(path)
+      }
+
+      return /\.tsx?$/.test(entry.name) ? [path] : []
+    })
+  )
+
+  return files.flat()
+}
+
+function getNavFields(
+  items: (NavItem | NavItemWithChildren)[],
+  parents: string[]
+) {
+  return items.flatMap((item): LocalizedField[] => {
+    const path = [...parents, item.title[defaultLocale] ?? item.href ?? '?']
+    const name = path.join(' > ')
+    const children = 'items' in item ? item.items : []
+
+    const fields = [{ name, record: item.title }]
+
+    if (item.label) {
+      fields.push({ name: `${name} (label)`, record: item.label })
+    }
+
+    return [...fields, ...getNavFields(children, path)]
+  })
+}
+
+function getLocalizedFields(): LocalizedField[] {
+  return [
+    ...getNavFields(docsConfig.mainNav, ['docsConfig.mainNav']),
+    ...getNavFields(docsConfig.sidebarNav, ['docsConfig.sidebarNav']),
+    ...getNavFields(blogConfig.mainNav, ['blogConfig.mainNav']),
+
+    ...blogConfig.authors.flatMap(({ id, bio }) =>
+      bio ? [{ name: `blogConfig.authors > ${id} (bio)`, record: bio }] : []
+    ),
+  ]
+}
+
+function printCoverage(coverage: Coverage[]) {
+  const percent = ({ translated, total }: Coverage['messages']) => {
+    const ratio = total ? Math.floor((translated / total) * 100) : 100
+
+    return `${translated}/${total} (${ratio}%)`
+  }
+
+  const rows = [
+    ['Locale', 'Messages', 'Config'],
+
+    ...coverage.map(({ locale, messages, config }) => [
+      locale === defaultLocale ? `${locale} (default)` : locale,
+      percent(messages),
+      percent(config),
+    ]),
+  ]
+
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => row[column].length))
+  )
+
+  const formatRow = (row: string[]) => {
+    const cells = row.map((cell, column) => cell.padEnd(widths[column]))
+
+    return `| ${cells.join(' | ')} |`
+  }
+
+  console.log(formatRow(rows[0]))
+  console.log(`|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`)
+
+  for (const row of rows.slice(1)) {
+    console.log(formatRow(row))
+  }
+}
+
+async function main() {
+  const problems: string[] = []
+
+  const defaultKeys = flattenMessages(await loadMessages(defaultLocale))
+  const defaultKeySet = new Set(defaultKeys)
+
+  const localizedFields = getLocalizedFields()
+  const coverage: Coverage[] = []
+
+  for (const locale of locales) {
+    const keys = new Set(flattenMessages(await loadMessages(locale)))
+
+    const missingKeys = defaultKeys.filter(key => !keys.has(key))
+    const extraKeys = Array.from(keys).filter(key => !defaultKeySet.has(key))
+
+    const missingFields = localizedFields.filter(
+      ({ record }) => !record[locale]
+    )
+
+    for (const key of missingKeys) {
+      problems.push(`[${locale}] missing message "${key}"`)
+    }
+
+    for (const key of extraKeys) {
+      problems.push(`[${locale}] unknown message "${key}"`)
+    }
+
+    for (const { name } of missingFields) {
+      problems.push(`[${locale}] missing translation of ${name}`)
+    }
+
+    coverage.push({
+      locale,
+
+      messages: {
+        total: defaultKeys.length,
+        translated: defaultKeys.length - missingKeys.length,
+      },
+
+      config: {
+        total: localizedFields.length,
+        translated: localizedFields.length - missingFields.length,
+      },
+    })
+  }
+
+  for (const file of await getSourceFiles(sourceDirectory)) {
+    const source = await readFile(file, 'utf8')
+
+    for (const key of getUnknownKeys(source, defaultKeySet)) {
+      const path = relative(sourceDirectory, file)
+
+      problems.push(
+        `[${path}] t('${key}') is not a message of "${defaultLocale}"`
+      )
+    }
+  }
+
+  printCoverage(coverage)
+
+  if (problems.length > 0) {
+    console.error(`\n${problems.length} translation problem(s):`)
+
+    for (const problem of problems) {
+      console.error(`  - ${problem}`)
+    }
+
+    process.exit(1)
+  }
+
+  console.log('\nAll translations are complete')
+}
+
+main()
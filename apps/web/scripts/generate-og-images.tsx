@@ -0,0 +1,117 @@
+/**
+ * Renders the OG image of every blog post and doc into `public/og` before
+ * `next build`, so shared links get a static file instead of running the OG
+ * routes. Each image is named after the hash of what it shows: images left
+ * by a previous build are only rendered again when their title, author,
+ * template or any other shown detail changed, or when the layout, fonts or
+ * assets of the templates did (`getOgVersion`). Unused ones are removed.
+ *
+ * Usage: bun run og:generate
+ */
+
+import { mkdir, readdir, rm, writeFile } from 'node:fs/promises'
+import { basename, join } from 'node:path'
+
+import { createBuilder } from '@content-collections/core'
+
+import type { OgImageProps } from '@/components/og/og-image'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
+
+interface LocalizedContent {
+  slugAsParams: string
+}
+
+const outputDirectory = join(process.cwd(), 'public/og')
+
+// The images follow the current content, not the last generated collections
+const builder = await createBuilder(
+  join(process.cwd(), 'content-collections.ts')
+)
+await builder.build()
+
+// Imported once the collections are built, they read the generated ones
+const { allBlogs, allDocs } = await import('content-collections')
+const { getVisibleContent } = await import('@/lib/core/utils/publication')
+const { getLocalizedSlugs } = await import('@/lib/core/utils/translations')
+
+const { getBlogOgImage, getDocOgImage, getOgImagePath, renderOgImage } =
+  await import('@/lib/core/utils/og-images')
+
+// Same lookup as the pages, falling back to the default locale
+function findContent<TContent extends LocalizedContent>(
+  contents: TContent[],
+  locale: LocaleOptions,
+  slug: string
+) {
+  const find = (locale: LocaleOptions) =>
+    contents.find(
+      content =>
+        content.slugAsParams === [locale, slug].filter(Boolean).join('/')
+    )
+
+  return find(locale) ?? find(defaultLocale)
+}
+
+const blogs = getVisibleContent(allBlogs)
+const docs = getVisibleContent(allDocs)
+const images = new Map<string, OgImageProps>()
+
+function addImage(image: OgImageProps) {
+  images.set(basename(getOgImagePath(image)), image)
+}
+
+for (const locale of locales) {
+  for (const slug of getLocalizedSlugs('blog', locale)) {
+    const post = findContent(blogs, locale, slug)
+
+    if (post && !post.og_image) {
+      addImage(getBlogOgImage(post, locale))
+    }
+  }
+
+  for (const slug of getLocalizedSlugs('docs', locale)) {
+    const doc = findContent(docs, locale, slug)
+
+    if (doc) {
+      addImage(getDocOgImage(doc, locale))
+    }
+  }
+}
+
+await mkdir(outputDirectory, { recursive: true })
+
+const existingFiles = new Set(await readdir(outputDirectory))
+let renderedImages = 0
+
+for (const [file, image] of images) {
+  if (existingFiles.has(file)) {
+    continue
+  }
+
+  // Emojis are downloaded while rendering, pages whose image fails keep
+  // linking the OG routes
+  try {
+    const response = await renderOgImage(image)
+
+    await writeFile(
+      join(outputDirectory, file),
+      Buffer.from(await response.arrayBuffer())
+    )
+
+    renderedImages++
+  } catch (error) {
+    images.delete(file)
+    console.warn(`Failed to render the OG image of "${image.title}":`, error)
+  }
+}
+
+for (const file of existingFiles) {
+  if (!images.has(file)) {
+    await rm(join(outputDirectory, file))
+  }
+}
+
+console.log(
+  `${images.size} OG images, ${renderedImages} rendered and ${images.size - renderedImages} kept from the previous build`
+)
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+
+import { getUnknownKeys } from './translation-keys'
+
+const keys = new Set([
+  'site.search.search',
+  'blog.cards.min_read',
+  'blog.series.parts',
+])
+
+describe('getUnknownKeys', () => {
+  test('resolves keys against the namespace of the translator', () => {
+    const source = `
+      const t = await getTranslations('blog')
+      const tSeries = await getTranslations({ locale, namespace: 'blog.series' })
+
+      t('cards.min_read')
+      t('cards.missing')
+      tSeries('parts')
+      tSeries.rich('chapters')
+    `
+
+    expect(getUnknownKeys(source, keys)).toEqual([
+      'cards.missing',
+      'chapters',
+    ])
+  })
+
+  test('follows translators destructured from Promise.all', () => {
+    const source = `
+      const [t, { query, filters, page }] = await Promise.all([
+        getTranslations(),
+        getSearchParams(props),
+      ])
+
+      const [blogPost, tBlog] = await Promise.all([
+        getBlogFromParams({ params }),
+        getTranslations('blog'),
+      ])
+
+      t('site.search.search')
+      t('site.search.unknown')
+      tBlog('cards.min_read')
+      tBlog('cards.unknown')
+    `
+
+    expect(getUnknownKeys(source, keys)).toEqual([
+      'site.search.unknown',
+      'cards.unknown',
+    ])
+  })
+
+  test('finds translators of client components', () => {
+    const source = `
+      function Component() {
+        const t = useTranslations('blog.cards')
+
+        return <span>{t('min_read')} {t('read_more')}</span>
+      }
+    `
+
+    expect(getUnknownKeys(source, keys)).toEqual(['read_more'])
+  })
+
+  test('ignores functions that are not translators', () => {
+    expect(getUnknownKeys(`const t = createT(); t('anything')`, keys)).toEqual(
+      []
+    )
+  })
+})
@@ -0,0 +1,179 @@
+import ts from 'typescript'
+
+const translatorFunctions = new Set(['getTranslations', 'useTranslations'])
+
+// `t.rich('…')` and the like take a key too
+const translatorMethods = new Set(['rich', 'markup', 'raw'])
+
+/**
+ * Namespace a translator is created with: `getTranslations('blog')`,
+ * `getTranslations({ locale, namespace: 'blog' })`, or the root one without
+ * it. Namespaces that are not string literals cannot be checked
+ */
+function getNamespace(call: ts.CallExpression) {
+  const [argument] = call.arguments
+
+  if (!argument) {
+    return ''
+  }
+
+  if (ts.isStringLiteralLike(argument)) {
+    return argument.text
+  }
+
+  if (!ts.isObjectLiteralExpression(argument)) {
+    return undefined
+  }
+
+  const namespace = argument.properties.find(
+    property =>
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === 'namespace'
+  )
+
+  if (!namespace) {
+    return ''
+  }
+
+  return ts.isPropertyAssignment(namespace) &&
+    ts.isStringLiteralLike(namespace.initializer)
+    ? namespace.initializer.text
+    : undefined
+}
+
+function isPromiseAll(node: ts.Node): node is ts.CallExpression {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ts.isIdentifier(node.expression.expression) &&
+    node.expression.expression.text === 'Promise' &&
+    node.expression.name.text === 'all'
+  )
+}
+
+/**
+ * Variable a translator is assigned to, `const t = await getTranslations()`,
+ * or the element destructured from its position in a `Promise.all`, e.g.
+ * `const [t, data] = await Promise.all([getTranslations(), getData()])`
+ */
+function getTranslatorName(call: ts.CallExpression) {
+  let node: ts.Node = call
+  let index: number | undefined
+
+  while (
+    ts.isAwaitExpression(node.parent) ||
+    ts.isParenthesizedExpression(node.parent) ||
+    (index === undefined &&
+      ts.isArrayLiteralExpression(node.parent) &&
+      isPromiseAll(node.parent.parent))
+  ) {
+    if (ts.isArrayLiteralExpression(node.parent)) {
+      index = node.parent.elements.indexOf(node as ts.Expression)
+      node = node.parent.parent
+    } else {
+      node = node.parent
+    }
+  }
+
+  const declaration = node.parent
+
+  if (!ts.isVariableDeclaration(declaration)) {
+    return undefined
+  }
+
+  if (index === undefined) {
+    return ts.isIdentifier(declaration.name) ? declaration.name.text : undefined
+  }
+
+  const element = ts.isArrayBindingPattern(declaration.name)
+    ? declaration.name.elements[index]
+    : undefined
+
+  return element && ts.isBindingElement(element) && ts.isIdentifier(element.name)
+    ? element.name.text
+    : undefined
+}
+
+// `t('key')` or `t.rich('key', …)`, with the name of the translator
+function getTranslationCall(call: ts.CallExpression) {
+  const [argument] = call.arguments
+  let callee = call.expression
+
+  if (!argument || !ts.isStringLiteralLike(argument)) {
+    return undefined
+  }
+
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    translatorMethods.has(callee.name.text)
+  ) {
+    callee = callee.expression
+  }
+
+  return ts.isIdentifier(callee)
+    ? { name: callee.text, key: argument.text }
+    : undefined
+}
+
+/**
+ * Finds the translation calls of a file and resolves them against the
+ * namespaces its translators are created with, e.g.
+ * `const t = await getTranslations('blog')` then `t('cards.min_read')`.
+ * A key is only reported when no namespace of its translator matches
+ */
+export function getUnknownKeys(source: string, keys: Set<string>) {
+  const file = ts.createSourceFile(
+    'source.tsx',
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  )
+
+  const namespaces = new Map<string, Set<string>>()
+  const calls: { name: string; key: string }[] = []
+
+  function visit(node: ts.Node) {
+    if (ts.isCallExpression(node)) {
+      const translator =
+        ts.isIdentifier(node.expression) &&
+        translatorFunctions.has(node.expression.text)
+
+      const name = translator ? getTranslatorName(node) : undefined
+      const namespace = translator ? getNamespace(node) : undefined
+
+      if (name && namespace !== undefined) {
+        namespaces.set(name, (namespaces.get(name) ?? new Set()).add(namespace))
+      }
+
+      const call = getTranslationCall(node)
+
+      if (call) {
+        calls.push(call)
+      }
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(file)
+
+  const unknownKeys = new Set<string>()
+
+  for (const { name, key } of calls) {
+    const translatorNamespaces = namespaces.get(name)
+
+    const isKnown =
+      !translatorNamespaces ||
+      Array.from(translatorNamespaces).some(namespace =>
+        keys.has(namespace ? `${namespace}.${key}` : key)
+      )
+
+    if (!isKnown) {
+      unknownKeys.add(key)
+    }
+  }
+
+  return Array.from(unknownKeys)
+}
@@ -8,18 +8,34 @@ import { PaginatedBlogPosts } from '@/components/blog/paginated-posts'
 import { BlogPostBreadcrumb } from '@/components/blog/breadcrumb'
 import { DashboardTableOfContents } from '@/components/docs/toc'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { getBlogIndex } from '@/lib/core/utils/document-index'
+import {
+  getContentAlternates,
+  getContentTranslations,
+  getLocalizedSlugs,
+} from '@/lib/core/utils/translations'
+import { splitLocalizedSlug } from '@/lib/core/utils/write-content-index'
+import { getVisibleContent } from '@/lib/core/utils/publication'
+import { getFeedAlternates } from '@/lib/core/utils/feeds'
 import { getBlogFromParams } from '@/lib/core/utils/blog'
+import {
+  getBlogOgImage,
+  getStaticOgImageUrl,
+} from '@/lib/core/utils/og-images'
 import { getTableOfContents } from '@/lib/core/utils/toc'
 import { BlogPostHeading } from '@/components/blog/heading'
 import { BlogPostTags } from '@/components/blog/post-tags'
+import { BlogSeriesBox, BlogSeriesPager } from '@/components/blog/series'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { AuthorCard } from '@/components/blog/author'
+import { RelatedPosts } from '@/components/blog/related-posts'
 import { allBlogs } from 'content-collections'
-import { defaultLocale } from '@/config/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
 import { Mdx } from '@/components/docs/mdx'
 import { Icons } from '@/components/icons'
 import { siteConfig } from '@/config/site'
 import { absoluteUrl } from '@/lib/utils'
+import { getLocalizedUrl, redirect } from '@/navigation'
 
 interface BlogPageProps {
   params: Promise<{
@@ -41,11 +57,17 @@ export async function generateMetadata(
     getBlogFromParams({ params }),
   ])
 
+  const blogFeed = { title: `Blog - ${siteConfig.name}` }
+
   if (!blogPost) {
     const title = t('words.blog')
     const description = t('description')
 
-    const tags = new Set(allBlogs.flatMap(blog => blog.tags).filter(Boolean))
+    const tags = new Set(
+      getVisibleContent(allBlogs)
+        .flatMap(blog => blog.tags)
+        .filter(Boolean)
+    )
 
     const ogImage = absoluteUrl('/blog-og/introducing-blogs-og.jpg')
 
@@ -54,11 +76,15 @@ export async function generateMetadata(
       description,
       keywords: Array.from(tags),
 
+      alternates: {
+        types: getFeedAlternates({ locale, feeds: [blogFeed] }),
+      },
+
       openGraph: {
         title,
         description,
         type: 'website',
-        url: absoluteUrl(`/${locale}/blog`),
+        url: getLocalizedUrl('/blog', locale),
 
         images: [
           {
@@ -79,8 +105,16 @@ export async function generateMetadata(
     }
   }
 
-  const [, ...blogSlugList] = blogPost.slugAsParams.split('/')
-  const blogSlug = blogSlugList.join('/') || ''
+  const { slug: blogSlug, locale: blogLocale } = splitLocalizedSlug(
+    blogPost.slugAsParams
+  )
+
+  // A fallback points search engines to the post of the default locale
+  const { canonical: postUrl, languages } = getContentAlternates({
+    type: 'blog',
+    slug: blogSlug,
+    locale: blogLocale,
+  })
 
   const postAuthorName = blogPost.author?.name || siteConfig.author.name
   const postAuthorUrl = blogPost.author?.site || siteConfig.author.site
@@ -90,13 +124,33 @@ export async function generateMetadata(
 
   const postOgImage = blogPost.og_image
     ? absoluteUrl(`/blog-og/${blogPost.og_image}`)
-    : absoluteUrl(`/${locale}/blog/og/${blogSlug}`)
+    : (getStaticOgImageUrl(getBlogOgImage(blogPost, locale)) ??
+      getLocalizedUrl(`/blog/og/${blogSlug}`, locale))
+
+  const tFeeds = await getTranslations('blog.feeds')
+  const authorFeedTitle = tFeeds('author', { author: postAuthorName })
+
+  const postFeeds = blogPost.author?.id
+    ? [
+        blogFeed,
+        {
+          title: `${authorFeedTitle} - ${siteConfig.name}`,
+          filter: { author: blogPost.author.id },
+        },
+      ]
+    : [blogFeed]
 
   return {
     title: blogPost.title,
     description: blogPost.excerpt,
     keywords: blogPost.tags || [],
 
+    alternates: {
+      canonical: postUrl,
+      languages,
+      types: getFeedAlternates({ locale, feeds: postFeeds }),
+    },
+
     authors: {
       url: postAuthorUrl,
       name: postAuthorName,
@@ -107,7 +161,7 @@ export async function generateMetadata(
       title: blogPost.title,
       authors: postAuthorName,
       description: blogPost.excerpt,
-      url: absoluteUrl(`/${locale}/blog/${blogSlug}`),
+      url: postUrl,
 
       images: [
         {
@@ -131,14 +185,12 @@ export async function generateMetadata(
 export async function generateStaticParams(): Promise<
   BlogPageProps['params'][]
 > {
-  const blog = allBlogs.map(blog => {
-    const [locale, ...slugs] = blog.slugAsParams.split('/')
-
-    return {
-      slug: slugs,
-      locale: locale as LocaleOptions,
-    }
-  })
+  const blog = locales.flatMap(locale =>
+    getLocalizedSlugs('blog', locale).map(slug => ({
+      locale,
+      slug: slug.split('/'),
+    }))
+  )
 
   return blog as unknown as BlogPageProps['params'][]
 }
@@ -152,6 +204,21 @@ export default async function BlogPage(props: BlogPageProps) {
   const t = await getTranslations()
   const blogPost = await getBlogFromParams({ params })
 
+  if (blogPost?.notAvailable) {
+    const { slug } = splitLocalizedSlug(blogPost.slugAsParams)
+
+    const translation = getContentTranslations({
+      slug,
+      type: 'blog',
+      locale: defaultLocale,
+    })[locale]
+
+    // The translation lives under another slug
+    if (translation) {
+      redirect({ href: translation, locale })
+    }
+  }
+
   if (!blogPost) {
     return (
       <Suspense
@@ -168,16 +235,11 @@ export default async function BlogPage(props: BlogPageProps) {
           locale={locale}
           messages={{
             by: t('blog.words.by'),
-            next: t('blog.buttons.next'),
-            min_read: t('blog.cards.min_read'),
-            previous: t('blog.buttons.previous'),
             rss_feed: t('blog.buttons.rss_feed'),
             read_more: t('blog.buttons.read_more'),
-            go_to_next_page: t('blog.buttons.go_to_next_page'),
-            go_to_previous_page: t('blog.buttons.go_to_previous_page'),
           }}
           perPage={6}
-          posts={allBlogs}
+          posts={getBlogIndex(locale)}
         />
       </Suspense>
     )
@@ -199,18 +261,38 @@ export default async function BlogPage(props: BlogPageProps) {
           locale={locale}
           messages={{
             by: t('blog.words.by'),
-            min_read: t('blog.cards.min_read'),
+            draft: t('blog.cards.draft'),
+            scheduled: t('blog.cards.scheduled'),
           }}
           post={blogPost}
         />
 
         <BlogPostTags post={blogPost} />
 
+        <BlogSeriesBox
+          className="mt-8"
+          messages={{
+            series: t('blog.series.series'),
+            view_series: t('blog.series.view_series'),
+          }}
+          post={blogPost}
+        />
+
         <div className="pb-12 pt-8">
           <Mdx code={blogPost.body.code} />
         </div>
 
+        <BlogSeriesPager className="pb-12" post={blogPost} />
+
         <AuthorCard post={blogPost} />
+
+        <RelatedPosts
+          className="pt-12"
+          messages={{
+            related_posts: t('blog.words.related_posts'),
+          }}
+          post={blogPost}
+        />
       </div>
 
       <div className="hidden text-sm lg:block">
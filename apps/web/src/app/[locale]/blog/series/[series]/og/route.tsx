@@ -0,0 +1,55 @@
+import { getTranslations } from 'next-intl/server'
+import type { NextRequest } from 'next/server'
+
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { getBlogSeries } from '@/lib/core/utils/series'
+import {
+  getOgImageEtag,
+  getSiteOgImage,
+  renderOgImage,
+} from '@/lib/core/utils/og-images'
+import {
+  cacheControl,
+  getCacheHeaders,
+  getNotModifiedResponse,
+  isNotModified,
+} from '@/lib/core/utils/http-cache'
+import { ogConfig } from '@/config/og'
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ locale: string; series: string }> }
+) {
+  const params = await context.params
+  const locale = params.locale as LocaleOptions
+  const series = getBlogSeries({ locale, slug: params.series })
+
+  if (!series) {
+    return renderOgImage(getSiteOgImage(locale))
+  }
+
+  const t = await getTranslations({ locale, namespace: 'blog.series' })
+
+  const image = {
+    template: ogConfig.defaultTemplate,
+    title: series.title,
+    eyebrow: t('parts', { count: series.parts.length }),
+    description: series.parts.map(part => part.title).join(' · '),
+  }
+
+  const validators = {
+    etag: await getOgImageEtag(image),
+    lastModified: new Date(
+      Math.max(...series.parts.map(part => new Date(part.date).getTime()))
+    ),
+  }
+
+  if (isNotModified(request.headers, validators)) {
+    return getNotModifiedResponse(validators, cacheControl.ogImage)
+  }
+
+  return renderOgImage(
+    image,
+    getCacheHeaders(validators, cacheControl.ogImage)
+  )
+}
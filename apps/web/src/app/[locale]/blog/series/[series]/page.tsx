@@ -0,0 +1,136 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server'
+import { notFound } from 'next/navigation'
+import Balancer from 'react-wrap-balancer'
+import type { Metadata } from 'next'
+
+import { getAllBlogSeries, getBlogSeries } from '@/lib/core/utils/series'
+import { RelativeDate } from '@/components/blog/relative-date'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { ReadTime } from '@/components/blog/read-time'
+import { defaultLocale } from '@/config/i18n'
+import { siteConfig } from '@/config/site'
+import { Card } from '@/components/ui/card'
+import { getLocalizedUrl, Link } from '@/navigation'
+
+interface BlogSeriesPageProps {
+  params: Promise<{
+    series: string
+    locale: LocaleOptions
+  }>
+}
+
+export function generateStaticParams() {
+  return getAllBlogSeries().map(({ slug, locale }) => ({
+    locale,
+    series: slug,
+  }))
+}
+
+export async function generateMetadata(
+  props: BlogSeriesPageProps
+): Promise<Metadata> {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const series = getBlogSeries({ locale, slug: params.series })
+
+  if (!series) {
+    return {}
+  }
+
+  const t = await getTranslations('blog.series')
+  const description = series.parts.map(part => part.title).join(' · ')
+  const ogImage = getLocalizedUrl(`/blog/series/${series.slug}/og`, locale)
+
+  return {
+    title: series.title,
+    description,
+
+    openGraph: {
+      title: series.title,
+      description,
+      type: 'website',
+      url: getLocalizedUrl(`/blog/series/${series.slug}`, locale),
+
+      images: [
+        {
+          ...siteConfig.og.size,
+          alt: series.title,
+          url: ogImage,
+        },
+      ],
+    },
+
+    twitter: {
+      title: series.title,
+      description: t('parts', { count: series.parts.length }),
+      images: [ogImage],
+      card: 'summary_large_image',
+      creator: siteConfig.links.twitter.username,
+    },
+  }
+}
+
+export default async function BlogSeriesPage(props: BlogSeriesPageProps) {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const series = getBlogSeries({ locale, slug: params.series })
+
+  if (!series) {
+    notFound()
+  }
+
+  const t = await getTranslations('blog')
+
+  return (
+    <main className="relative max-w-4xl mx-auto space-y-8">
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          {t('series.parts', { count: series.parts.length })}
+        </p>
+
+        <h1 className="scroll-m-20 text-4xl sm:text-5xl font-bold tracking-tight">
+          <Balancer>{series.title}</Balancer>
+        </h1>
+      </div>
+
+      <ol className="space-y-4">
+        {series.parts.map((part, index) => (
+          <li key={part.slug}>
+            <Card className="flex flex-col gap-2 p-4 md:p-6 backdrop-blur-lg dark:bg-card-primary">
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>{t('series.part', { number: index + 1 })}</span>
+
+                <ReadTime time={part.readTime} variant="unstyled" />
+              </div>
+
+              <Link
+                className="hover:opacity-65 transition-all"
+                href={`/blog/${part.slug}`}
+              >
+                <h2 className="text-xl">
+                  <Balancer>{part.title}</Balancer>
+                </h2>
+              </Link>
+
+              <p className="text-muted-foreground">
+                <Balancer>{part.excerpt}</Balancer>
+              </p>
+
+              <RelativeDate
+                className="text-xs text-muted-foreground"
+                date={part.date}
+                locale={locale}
+              />
+            </Card>
+          </li>
+        ))}
+      </ol>
+    </main>
+  )
+}
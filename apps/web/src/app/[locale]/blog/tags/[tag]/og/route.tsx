@@ -0,0 +1,53 @@
+import { getTranslations } from 'next-intl/server'
+import type { NextRequest } from 'next/server'
+
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { getBlogPostsByTag, getBlogTag } from '@/lib/core/utils/tags'
+import {
+  getOgImageEtag,
+  getSiteOgImage,
+  renderOgImage,
+} from '@/lib/core/utils/og-images'
+import {
+  cacheControl,
+  getCacheHeaders,
+  getNotModifiedResponse,
+  isNotModified,
+} from '@/lib/core/utils/http-cache'
+import { ogConfig } from '@/config/og'
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ locale: string; tag: string }> }
+) {
+  const params = await context.params
+  const locale = params.locale as LocaleOptions
+  const tag = getBlogTag({ locale, slug: params.tag })
+
+  if (!tag) {
+    return renderOgImage(getSiteOgImage(locale))
+  }
+
+  const t = await getTranslations({ locale, namespace: 'blog.tag' })
+  const [newestPost] = getBlogPostsByTag({ locale, slug: tag.slug })
+
+  const image = {
+    template: ogConfig.defaultTemplate,
+    title: `#${tag.name}`,
+    description: t('posts', { count: tag.count, tag: tag.name }),
+  }
+
+  const validators = {
+    etag: await getOgImageEtag(image),
+    lastModified: new Date(newestPost.date),
+  }
+
+  if (isNotModified(request.headers, validators)) {
+    return getNotModifiedResponse(validators, cacheControl.ogImage)
+  }
+
+  return renderOgImage(
+    image,
+    getCacheHeaders(validators, cacheControl.ogImage)
+  )
+}
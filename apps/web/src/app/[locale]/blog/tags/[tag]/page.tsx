@@ -0,0 +1,153 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server'
+import { notFound } from 'next/navigation'
+import Balancer from 'react-wrap-balancer'
+import type { Metadata } from 'next'
+import { Suspense } from 'react'
+
+import {
+  getBlogPostsByTag,
+  getBlogTag,
+  getBlogTags,
+} from '@/lib/core/utils/tags'
+
+import { PaginatedBlogPosts } from '@/components/blog/paginated-posts'
+import { getFeedAlternates } from '@/lib/core/utils/feeds'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
+import { Icons } from '@/components/icons'
+import { siteConfig } from '@/config/site'
+import { getLocalizedUrl } from '@/navigation'
+
+interface BlogTagPageProps {
+  params: Promise<{
+    tag: string
+    locale: LocaleOptions
+  }>
+}
+
+export function generateStaticParams() {
+  return locales.flatMap(locale =>
+    getBlogTags(locale).map(({ slug }) => ({
+      locale,
+      tag: slug,
+    }))
+  )
+}
+
+export async function generateMetadata(
+  props: BlogTagPageProps
+): Promise<Metadata> {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const tag = getBlogTag({ locale, slug: params.tag })
+
+  if (!tag) {
+    return {}
+  }
+
+  const t = await getTranslations('blog')
+
+  const title = t('tag.title', { tag: tag.name })
+  const description = t('tag.description', { tag: tag.name })
+  const url = getLocalizedUrl(`/blog/tags/${tag.slug}`, locale)
+  const ogImage = getLocalizedUrl(`/blog/tags/${tag.slug}/og`, locale)
+
+  return {
+    title,
+    description,
+    keywords: [tag.name],
+
+    alternates: {
+      canonical: url,
+
+      types: getFeedAlternates({
+        locale,
+        feeds: [
+          {
+            title: `${t('feeds.tag', { tag: tag.name })} - ${siteConfig.name}`,
+            filter: { tag: tag.slug },
+          },
+          { title: `Blog - ${siteConfig.name}` },
+        ],
+      }),
+    },
+
+    openGraph: {
+      title,
+      description,
+      url,
+      type: 'website',
+
+      images: [
+        {
+          ...siteConfig.og.size,
+          url: ogImage,
+          alt: title,
+        },
+      ],
+    },
+
+    twitter: {
+      title,
+      description,
+      images: [ogImage],
+      card: 'summary_large_image',
+      creator: siteConfig.links.twitter.username,
+    },
+  }
+}
+
+export default async function BlogTagPage(props: BlogTagPageProps) {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const tag = getBlogTag({ locale, slug: params.tag })
+
+  if (!tag) {
+    notFound()
+  }
+
+  const t = await getTranslations('blog')
+
+  return (
+    <div className="space-y-8">
+      <div className="max-w-5xl mx-auto space-y-2">
+        <h1 className="scroll-m-20 text-4xl sm:text-5xl font-bold tracking-tight">
+          <Balancer>{t('tag.title', { tag: tag.name })}</Balancer>
+        </h1>
+
+        <p className="text-muted-foreground">
+          {t('tag.posts', { count: tag.count, tag: tag.name })}
+        </p>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="h-64 md:h-96 w-full flex flex-1 items-center justify-center">
+            <Icons.spinner
+              className="animate-spin max-h-32 max-w-32 min-h-20 min-w-20 h-full w-full"
+              strokeWidth="1"
+            />
+          </div>
+        }
+      >
+        <PaginatedBlogPosts
+          currentTag={tag}
+          locale={locale}
+          messages={{
+            by: t('words.by'),
+            rss_feed: t('buttons.rss_feed'),
+            read_more: t('buttons.read_more'),
+          }}
+          perPage={6}
+          posts={getBlogPostsByTag({ locale, slug: tag.slug })}
+        />
+      </Suspense>
+    </div>
+  )
+}
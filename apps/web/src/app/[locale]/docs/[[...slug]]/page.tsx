@@ -1,5 +1,4 @@
 import { getTranslations, setRequestLocale } from 'next-intl/server'
-import type { LocaleOptions } from '@/lib/core/types/i18n'
 import type { Metadata } from 'next'
 
 import '@/styles/mdx.css'
@@ -10,15 +9,24 @@ import { getTableOfContents } from '@/lib/core/utils/toc'
 import type { DocPageProps } from '@/lib/core/types/docs'
 import { DocBreadcrumb } from '@/components/docs/breadcrumb'
 import { getDocFromParams } from '@/lib/core/utils/doc'
+import {
+  getDocOgImage,
+  getStaticOgImageUrl,
+} from '@/lib/core/utils/og-images'
+import {
+  getContentAlternates,
+  getContentTranslations,
+  getLocalizedSlugs,
+} from '@/lib/core/utils/translations'
+import { splitLocalizedSlug } from '@/lib/core/utils/write-content-index'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { DocHeading } from '@/components/docs/heading'
 import { DocsPager } from '@/components/docs/pager'
 import { DocLinks } from '@/components/docs/links'
-import { allDocs } from 'content-collections'
-import { defaultLocale } from '@/config/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
 import { Mdx } from '@/components/docs/mdx'
 import { siteConfig } from '@/config/site'
-import { absoluteUrl } from '@/lib/utils'
+import { getLocalizedUrl, redirect } from '@/navigation'
 
 export async function generateMetadata(props: {
   params: Promise<DocPageProps['params']>
@@ -34,24 +42,38 @@ export async function generateMetadata(props: {
     return {}
   }
 
-  const [, ...docSlugList] = doc.slugAsParams.split('/')
-  const docSlug = docSlugList.join('/') || ''
+  const { slug: docSlug, locale: docLocale } = splitLocalizedSlug(
+    doc.slugAsParams
+  )
+
+  // A fallback points search engines to the doc of the default locale
+  const alternates = getContentAlternates({
+    type: 'docs',
+    slug: docSlug,
+    locale: docLocale,
+  })
+
+  const docOgImage =
+    getStaticOgImageUrl(getDocOgImage(doc, locale)) ??
+    getLocalizedUrl(docSlug ? `/docs/og/${docSlug}` : '/docs/og', locale)
 
   return {
     title: doc.title,
     description: doc.description,
 
+    alternates,
+
     openGraph: {
       type: 'article',
       title: doc.title,
-      url: absoluteUrl(`/${locale}/docs/${docSlug}`),
+      url: alternates.canonical,
       description: doc.description,
 
       images: [
         {
           ...siteConfig.og.size,
-          url: siteConfig.og.image,
-          alt: siteConfig.name,
+          url: docOgImage,
+          alt: doc.title,
         },
       ],
     },
@@ -60,7 +82,7 @@ export async function generateMetadata(props: {
       card: 'summary_large_image',
       title: doc.title,
       description: doc.description,
-      images: [siteConfig.og.image],
+      images: [docOgImage],
       creator: siteConfig.links.twitter.username,
     },
   }
@@ -69,14 +91,12 @@ export async function generateMetadata(props: {
 export async function generateStaticParams(): Promise<
   DocPageProps['params'][]
 > {
-  const docs = allDocs.map(doc => {
-    const [locale, ...slugs] = doc.slugAsParams.split('/')
-
-    return {
-      slug: slugs,
-      locale: locale as LocaleOptions,
-    }
-  })
+  const docs = locales.flatMap(locale =>
+    getLocalizedSlugs('docs', locale).map(slug => ({
+      locale,
+      slug: slug ? slug.split('/') : [],
+    }))
+  )
 
   return docs
 }
@@ -85,11 +105,28 @@ export default async function DocPage(props: {
   params: Promise<DocPageProps['params']>
 }) {
   const params = await props.params
-  setRequestLocale(params.locale || defaultLocale)
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
 
   const doc = await getDocFromParams({ params })
   const t = await getTranslations('docs')
 
+  if (doc?.notAvailable) {
+    const { slug } = splitLocalizedSlug(doc.slugAsParams)
+
+    const translation = getContentTranslations({
+      slug,
+      type: 'docs',
+      locale: defaultLocale,
+    })[locale]
+
+    // The translation lives under another slug
+    if (translation) {
+      redirect({ href: translation, locale })
+    }
+  }
+
   if (!doc) {
     return (
       <DocumentNotFound
@@ -113,7 +150,7 @@ export default async function DocPage(props: {
           }}
         />
 
-        <DocHeading doc={doc} locale={params.locale} />
+        <DocHeading doc={doc} />
         <DocLinks doc={doc} />
 
         <div className="pb-12 pt-8">
@@ -0,0 +1,48 @@
+import { draftMode } from 'next/headers'
+import type { NextRequest } from 'next/server'
+
+import { getDocFromParams } from '@/lib/core/utils/doc'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import {
+  getDocOgImage,
+  getSiteOgImage,
+  getOgImageEtag,
+  renderOgImage,
+} from '@/lib/core/utils/og-images'
+import {
+  cacheControl,
+  getCacheHeaders,
+  getNotModifiedResponse,
+  isNotModified,
+} from '@/lib/core/utils/http-cache'
+
+// Production pages link the images rendered at build time, see
+// `scripts/generate-og-images.tsx`
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ locale: string; slug?: string[] }> }
+) {
+  const params = await context.params
+  const locale = params.locale as LocaleOptions
+
+  const doc = await getDocFromParams({
+    params: { locale, slug: params.slug ?? [] },
+  })
+
+  // Docs without a translation share the image of the default locale, the
+  // links of the breadcrumb are still titled in the requested one
+  const image = doc ? getDocOgImage(doc, locale) : getSiteOgImage(locale)
+
+  const { isEnabled: isPreview } = await draftMode()
+  const directives = isPreview ? cacheControl.preview : cacheControl.ogImage
+
+  const validators = {
+    etag: await getOgImageEtag(image),
+  }
+
+  if (isNotModified(request.headers, validators)) {
+    return getNotModifiedResponse(validators, directives)
+  }
+
+  return renderOgImage(image, getCacheHeaders(validators, directives))
+}
@@ -1,99 +1,39 @@
 import { NextResponse } from 'next/server'
-import { Feed, type Item } from 'feed'
 import { cache } from 'react'
 
-import { getObjectValueByLocale } from '@/lib/core/utils/locale'
+import { getVisibleContent } from '@/lib/core/utils/publication'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
-import { allBlogs, type Blog } from 'content-collections'
+import { getBlogFeed } from '@/lib/core/utils/blog-feed'
+import { getFeedHeaders } from '@/lib/core/utils/feed-validators'
 import type { RSSFeed } from '@/lib/core/types/blog'
 import { defaultLocale, locales } from '@/config/i18n'
+import { allBlogs } from 'content-collections'
 import { blogConfig } from '@/config/blog'
 import { siteConfig } from '@/config/site'
-import { absoluteUrl } from '@/lib/utils'
+import { getLocalizedUrl } from '@/navigation'
 
-function generateWebsiteFeeds({
-  file,
-  posts,
-  locale,
-}: {
-  posts: Blog[]
-  file: RSSFeed['file']
-  locale: LocaleOptions
-}) {
-  const feed = new Feed({
-    id: file,
-    generator: siteConfig.name,
-    copyright: siteConfig.name,
-    image: siteConfig.og.image,
-    language: locale || defaultLocale,
-    title: `Blog - ${siteConfig.name}`,
-    favicon: absoluteUrl('/favicon.ico'),
-    link: absoluteUrl(`/${locale}/feed/${file}`),
-    description: getObjectValueByLocale(siteConfig.description, locale),
-  })
-
-  const blogFeedEntries = posts
-    .filter(post => {
-      const [postLocale] = post.slugAsParams.split('/')
-
-      return postLocale === locale
-    })
-    .map(post => {
-      const [postLocale, ...postSlugList] = post.slugAsParams.split('/')
-      const postSlug = postSlugList.join('/') || ''
-
-      const postLink =
-        postLocale === defaultLocale
-          ? `/blog/${postSlug}`
-          : `/${locale}/blog/${postSlug}`
-
-      const link = absoluteUrl(postLink)
-
-      return {
-        id: link,
-        link,
-        title: post.title,
-        description: post.excerpt,
-        date: new Date(post.date || Date.now()),
-
-        author: [
-          {
-            name: post.author?.name,
-            link: post.author?.site,
-            email: post.author?.email || ' ',
-          },
-        ],
-      } as Item
-    })
-
-  for (const blogFeedEntry of blogFeedEntries) {
-    feed.addItem(blogFeedEntry)
-  }
+const provideWebsiteFeed = cache(
+  ({ feed, locale }: { feed: string; locale: LocaleOptions }) => {
+    const rss = blogConfig.rss.find(rss => rss.file === feed)
 
-  return new Map<string, Feed>([[file, feed]])
-}
+    if (!rss) {
+      return undefined
+    }
 
-const provideWebsiteFeeds = cache(
-  ({ feed, locale }: { feed: string; locale: LocaleOptions }) => {
-    const websiteFeeds = generateWebsiteFeeds({
+    return getBlogFeed({
+      rss,
       locale,
-      file: feed,
-      posts: allBlogs,
+      title: `Blog - ${siteConfig.name}`,
+      link: getLocalizedUrl('/blog', locale),
+      posts: getVisibleContent(allBlogs),
     })
-
-    switch (feed) {
-      case 'blog.xml':
-        return websiteFeeds.get(feed)?.rss2()
-
-      case 'blog.json':
-        return websiteFeeds.get(feed)?.json1()
-
-      default:
-        return undefined
-    }
   }
 )
 
+// Feeds are rendered once at build time, the proxy answers the conditional
+// requests of the feed readers from the validators of the content index
+export const dynamic = 'force-static'
+
 type StaticParams = {
   params: Promise<{ feed: RSSFeed['file']; locale: LocaleOptions }>
 }
@@ -120,21 +60,18 @@ export const GET = async (
   }
 
   const typedParams = await staticProps.params
-  const websiteFeed = provideWebsiteFeeds({
+  const websiteFeed = await provideWebsiteFeed({
     feed: typedParams.feed,
     locale: typedParams.locale || defaultLocale,
   })
 
-  const feed = blogConfig.rss.find(rss => rss.file === params.feed)
+  const rss = blogConfig.rss.find(rss => rss.file === params.feed)
 
-  const contentType = String(
-    feed?.contentType || blogConfig.rss?.[0]?.contentType
-  )
+  if (!websiteFeed || !rss) {
+    return new NextResponse(null, { status: 404 })
+  }
 
   return new NextResponse(websiteFeed, {
-    status: websiteFeed ? 200 : 404,
-    headers: {
-      'Content-Type': contentType,
-    },
+    headers: getFeedHeaders({ rss, locale: typedParams.locale }),
   })
 }
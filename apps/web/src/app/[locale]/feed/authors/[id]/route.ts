@@ -0,0 +1,60 @@
+import { getTranslations } from 'next-intl/server'
+import { NextResponse } from 'next/server'
+
+import {
+  getFilteredFeedFiles,
+  parseFilteredFeedFile,
+} from '@/lib/core/utils/feeds'
+import { getFeedHeaders } from '@/lib/core/utils/feed-validators'
+import { getBlogFeed } from '@/lib/core/utils/blog-feed'
+import { getVisibleContent } from '@/lib/core/utils/publication'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { allBlogs } from 'content-collections'
+import { blogConfig } from '@/config/blog'
+import { siteConfig } from '@/config/site'
+import { getLocalizedUrl } from '@/navigation'
+import { locales } from '@/config/i18n'
+
+export const dynamic = 'force-static'
+
+export function generateStaticParams() {
+  return locales.flatMap(locale =>
+    blogConfig.authors.flatMap(({ id }) =>
+      id ? getFilteredFeedFiles(id).map(file => ({ locale, id: file })) : []
+    )
+  )
+}
+
+export async function GET(
+  _: Request,
+  context: { params: Promise<{ locale: string; id: string }> }
+) {
+  const params = await context.params
+  const locale = params.locale as LocaleOptions
+  const feedFile = parseFilteredFeedFile(params.id)
+
+  const author = blogConfig.authors.find(
+    author => author.id && author.id === feedFile?.slug
+  )
+
+  if (!feedFile || !author?.id) {
+    return new NextResponse(null, { status: 404 })
+  }
+
+  const t = await getTranslations({ locale, namespace: 'blog.feeds' })
+  const filter = { author: author.id }
+  const authorName = author.name ?? author.id
+
+  const feed = await getBlogFeed({
+    locale,
+    rss: feedFile.rss,
+    filter,
+    title: `${t('author', { author: authorName })} - ${siteConfig.name}`,
+    link: getLocalizedUrl('/blog', locale),
+    posts: getVisibleContent(allBlogs),
+  })
+
+  return new NextResponse(feed, {
+    headers: getFeedHeaders({ locale, filter, rss: feedFile.rss }),
+  })
+}
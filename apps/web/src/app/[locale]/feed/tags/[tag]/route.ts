@@ -0,0 +1,56 @@
+import { getTranslations } from 'next-intl/server'
+import { NextResponse } from 'next/server'
+
+import {
+  getFilteredFeedFiles,
+  parseFilteredFeedFile,
+} from '@/lib/core/utils/feeds'
+import { getFeedHeaders } from '@/lib/core/utils/feed-validators'
+import { getBlogFeed } from '@/lib/core/utils/blog-feed'
+import { getBlogTag, getBlogTags } from '@/lib/core/utils/tags'
+import { getVisibleContent } from '@/lib/core/utils/publication'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { allBlogs } from 'content-collections'
+import { siteConfig } from '@/config/site'
+import { getLocalizedUrl } from '@/navigation'
+import { locales } from '@/config/i18n'
+
+export const dynamic = 'force-static'
+
+export function generateStaticParams() {
+  return locales.flatMap(locale =>
+    getBlogTags(locale).flatMap(({ slug }) =>
+      getFilteredFeedFiles(slug).map(tag => ({ locale, tag }))
+    )
+  )
+}
+
+export async function GET(
+  _: Request,
+  context: { params: Promise<{ locale: string; tag: string }> }
+) {
+  const params = await context.params
+  const locale = params.locale as LocaleOptions
+  const feedFile = parseFilteredFeedFile(params.tag)
+  const tag = feedFile && getBlogTag({ locale, slug: feedFile.slug })
+
+  if (!feedFile || !tag) {
+    return new NextResponse(null, { status: 404 })
+  }
+
+  const t = await getTranslations({ locale, namespace: 'blog.feeds' })
+  const filter = { tag: tag.slug }
+
+  const feed = await getBlogFeed({
+    locale,
+    rss: feedFile.rss,
+    filter,
+    title: `${t('tag', { tag: tag.name })} - ${siteConfig.name}`,
+    link: getLocalizedUrl(`/blog/tags/${tag.slug}`, locale),
+    posts: getVisibleContent(allBlogs),
+  })
+
+  return new NextResponse(feed, {
+    headers: getFeedHeaders({ locale, filter, rss: feedFile.rss }),
+  })
+}
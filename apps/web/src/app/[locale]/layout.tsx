@@ -1,4 +1,8 @@
-import { setRequestLocale } from 'next-intl/server'
+import {
+  getMessages,
+  getTranslations,
+  setRequestLocale,
+} from 'next-intl/server'
 import { NextIntlClientProvider } from 'next-intl'
 import type { Metadata, Viewport } from 'next'
 
@@ -7,10 +11,12 @@ import '@/styles/globals.css'
 import { getObjectValueByLocale } from '@/lib/core/utils/locale'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
 import { QueryProvider } from '@/lib/providers/query-provider'
+import { LanguageBanner } from '@/components/language-banner'
 import { ThemeProvider } from '@/components/theme-provider'
 import { SiteFooter } from '@/components/site-footer'
 import { SiteHeader } from '@/components/site-header'
-import { defaultLocale, locales } from '@/config/i18n'
+import { PreviewBar } from '@/components/preview-bar'
+import { defaultLocale, labels, locales } from '@/config/i18n'
 import { siteConfig } from '@/config/site'
 import { getSansFont } from '@/lib/fonts'
 import { cn } from '@/lib/utils'
@@ -116,6 +122,42 @@ export default async function RootLayout(props: {
   setRequestLocale(locale)
 
   const fontSans = await getSansFont()
+
+  // Client components only get the messages they format themselves, like
+  // the plurals of reading times and pages or the titles of the feeds
+  const { blog } = await getMessages()
+
+  const clientMessages = {
+    blog: {
+      cards: blog.cards,
+      pagination: blog.pagination,
+      feeds: blog.feeds,
+    },
+  }
+
+  // Each suggestion is written in the language it suggests
+  const bannerMessages = Object.fromEntries(
+    await Promise.all(
+      locales.map(async bannerLocale => {
+        const t = await getTranslations({
+          locale: bannerLocale,
+          namespace: 'site.language_banner',
+        })
+
+        const language = labels[bannerLocale]
+
+        return [
+          bannerLocale,
+          {
+            available: t('available', { language }),
+            switch: t('switch', { language }),
+            dismiss: t('dismiss'),
+          },
+        ]
+      })
+    )
+  )
+
   return (
     <html lang={locale} suppressHydrationWarning>
       <head>
@@ -129,10 +171,7 @@ export default async function RootLayout(props: {
         )}
       >
         <QueryProvider>
-          <NextIntlClientProvider
-            locale={params.locale || defaultLocale}
-            messages={{}}
-          >
+          <NextIntlClientProvider locale={locale} messages={clientMessages}>
             <ThemeProvider
               attribute="class"
               defaultTheme="dark"
@@ -143,9 +182,13 @@ export default async function RootLayout(props: {
                 <div className="relative z-10 flex min-h-screen flex-col">
                   <SiteHeader />
 
+                  <LanguageBanner messages={bannerMessages} />
+
                   <main className="flex-1">{children}</main>
 
                   <SiteFooter />
+
+                  <PreviewBar />
                 </div>
 
                 <div className="fixed left-0 top-0 size-full bg-gradient-to-b from-[#a277ff] via-transparent to-transparent opacity-10" />
@@ -0,0 +1,225 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server'
+import type { Metadata } from 'next'
+
+import type { SearchContentType, SearchFilters } from '@/lib/core/types/search'
+import { getServerSearchIndex } from '@/lib/core/utils/get-server-search-index'
+import { SearchEmptyState } from '@/components/search/empty-state'
+import { getBlogIndex } from '@/lib/core/utils/document-index'
+import { SearchResults } from '@/components/search/results'
+import { SearchFacets } from '@/components/search/facets'
+import { Pagination } from '@/components/blog/pagination'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { defaultLocale } from '@/config/i18n'
+import { siteConfig } from '@/config/site'
+import { getLocalizedUrl } from '@/navigation'
+
+import {
+  searchContent,
+  getSearchTerms,
+  getSearchFacets,
+  getSearchPageHref,
+  filterSearchResults,
+  groupSearchResultsByDocument,
+} from '@/lib/core/utils/search'
+
+const perPage = 10
+const numberOfSuggestedTags = 10
+const numberOfSuggestedPosts = 3
+const searchContentTypes: SearchContentType[] = ['blog', 'docs']
+
+interface SearchPageProps {
+  params: Promise<{
+    locale: LocaleOptions
+  }>
+
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+function getSearchParam(value: string | string[] | undefined) {
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined
+}
+
+async function getSearchParams(props: SearchPageProps) {
+  const searchParams = await props.searchParams
+  const type = getSearchParam(searchParams.type) as SearchContentType
+
+  const filters: SearchFilters = {
+    type: searchContentTypes.includes(type) ? type : undefined,
+    tag: getSearchParam(searchParams.tag),
+    year: getSearchParam(searchParams.year),
+  }
+
+  return {
+    filters,
+    query: getSearchParam(searchParams.q) ?? '',
+    page: Number.parseInt(getSearchParam(searchParams.page) ?? '1', 10) || 1,
+  }
+}
+
+function getPopularTags(locale: LocaleOptions) {
+  const tagCounts = new Map<string, number>()
+
+  for (const tag of getBlogIndex(locale).flatMap(post => post.tags)) {
+    tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)
+  }
+
+  return Array.from(tagCounts)
+    .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))
+    .slice(0, numberOfSuggestedTags)
+    .map(([tag]) => tag)
+}
+
+export async function generateMetadata(
+  props: SearchPageProps
+): Promise<Metadata> {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const [t, { query, filters }] = await Promise.all([
+    getTranslations('site.search'),
+    getSearchParams(props),
+  ])
+
+  const title = query ? t('results_for', { query }) : t('search')
+  const description = t('description')
+  const url = getLocalizedUrl(getSearchPageHref(query, filters), locale)
+
+  return {
+    title,
+    description,
+
+    alternates: {
+      canonical: url,
+    },
+
+    openGraph: {
+      title,
+      description,
+      url,
+      type: 'website',
+
+      images: [
+        {
+          ...siteConfig.og.size,
+          alt: siteConfig.name,
+          url: siteConfig.og.image,
+        },
+      ],
+    },
+  }
+}
+
+export default async function SearchPage(props: SearchPageProps) {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  const [t, { query, filters, page }] = await Promise.all([
+    getTranslations(),
+    getSearchParams(props),
+  ])
+
+  // Facets, the count and the pages are about documents, not sections
+  const results = groupSearchResultsByDocument(
+    searchContent(getServerSearchIndex(locale), query)
+  )
+  const facets = getSearchFacets(results, filters)
+  const filteredResults = filterSearchResults(results, filters)
+
+  const numberOfPages = Math.ceil(filteredResults.length / perPage)
+
+  const paginatedResults = filteredResults.slice(
+    (page - 1) * perPage,
+    page * perPage
+  )
+
+  const types = {
+    blog: t('site.words.blog'),
+    docs: t('site.words.docs'),
+  }
+
+  return (
+    <main className="relative max-w-5xl mx-auto space-y-8 grid">
+      <div className="space-y-4">
+        <h1 className="text-3xl font-bold tracking-tight">
+          {query
+            ? t('site.search.results_for', { query })
+            : t('site.search.search')}
+        </h1>
+
+        <form className="flex gap-2">
+          <Input
+            aria-label={t('site.search.search')}
+            defaultValue={query}
+            name="q"
+            placeholder={`${t('site.search.placeholder')}...`}
+            type="search"
+          />
+
+          {filters.type && (
+            <input name="type" type="hidden" value={filters.type} />
+          )}
+
+          <Button type="submit">{t('site.search.search')}</Button>
+        </form>
+
+        {filteredResults.length > 0 && (
+          <p className="text-muted-foreground text-sm">
+            {t('site.search.results_count', { count: filteredResults.length })}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-8 md:grid-cols-[200px_1fr]">
+        <SearchFacets
+          facets={facets}
+          filters={filters}
+          messages={{
+            types,
+            type: t('site.search.filters.type'),
+            tags: t('site.search.filters.tags'),
+            year: t('site.search.filters.year'),
+            clear_filters: t('site.search.filters.clear_filters'),
+          }}
+          query={query}
+        />
+
+        {paginatedResults.length > 0 ? (
+          <SearchResults
+            locale={locale}
+            messages={{ types }}
+            results={paginatedResults}
+            terms={getSearchTerms(query)}
+          />
+        ) : (
+          <SearchEmptyState
+            filters={filters}
+            messages={{
+              title: query
+                ? t('site.search.empty.title', { query })
+                : t('site.search.empty.start_title'),
+              description: query
+                ? t('site.search.empty.description')
+                : t('site.search.empty.start_description'),
+              clear_filters: t('site.search.filters.clear_filters'),
+              popular_tags: t('site.search.empty.popular_tags'),
+              latest_posts: t('site.search.empty.latest_posts'),
+            }}
+            posts={getBlogIndex(locale).slice(0, numberOfSuggestedPosts)}
+            query={query}
+            tags={getPopularTags(locale)}
+          />
+        )}
+      </div>
+
+      {numberOfPages > 1 && (
+        <Pagination numberOfPages={numberOfPages} />
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,68 @@
+import { getTranslations, setRequestLocale } from 'next-intl/server'
+import { notFound } from 'next/navigation'
+import { draftMode } from 'next/headers'
+import type { Metadata } from 'next'
+
+import { TranslationStatusTable } from '@/components/translations/status-table'
+import { getTranslationStatus } from '@/lib/core/utils/translation-status'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
+
+interface TranslationsPageProps {
+  params: Promise<{
+    locale: LocaleOptions
+  }>
+}
+
+export const metadata: Metadata = {
+  robots: {
+    index: false,
+    follow: false,
+  },
+}
+
+export default async function TranslationsPage(props: TranslationsPageProps) {
+  const params = await props.params
+  const locale = params.locale || defaultLocale
+
+  setRequestLocale(locale)
+
+  // Editors reach the dashboard locally or through a preview link
+  const { isEnabled: isPreview } = await draftMode()
+
+  if (process.env.NODE_ENV !== 'development' && !isPreview) {
+    notFound()
+  }
+
+  const t = await getTranslations('translations')
+  const groups = getTranslationStatus()
+
+  return (
+    <main className="relative max-w-5xl mx-auto space-y-8 grid">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">{t('title')}</h1>
+
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <TranslationStatusTable
+        groups={groups}
+        locales={locales}
+        messages={{
+          type: t('columns.type'),
+          content: t('columns.content'),
+          create: t('create'),
+          filter_placeholder: t('filter_placeholder'),
+          updated_unknown: t('updated_unknown'),
+
+          states: {
+            source: t('states.source'),
+            up_to_date: t('states.up_to_date'),
+            stale: t('states.stale'),
+            missing: t('states.missing'),
+          },
+        }}
+      />
+    </main>
+  )
+}
@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server'
+import { draftMode } from 'next/headers'
+import { redirect } from 'next/navigation'
+
+// Sends the reader back to the page they were previewing, as long as it
+// belongs to this site
+function getExitRedirect(request: NextRequest) {
+  const referer = request.headers.get('referer')
+
+  if (!referer || !URL.canParse(referer)) {
+    return '/'
+  }
+
+  const refererUrl = new URL(referer)
+
+  return refererUrl.origin === request.nextUrl.origin
+    ? `${refererUrl.pathname}${refererUrl.search}`
+    : '/'
+}
+
+export async function GET(request: NextRequest) {
+  const draft = await draftMode()
+
+  draft.disable()
+
+  redirect(getExitRedirect(request))
+}
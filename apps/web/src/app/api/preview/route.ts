@@ -0,0 +1,59 @@
+import { allBlogs, allDocs } from 'content-collections'
+import { type NextRequest, NextResponse } from 'next/server'
+import { draftMode } from 'next/headers'
+import { timingSafeEqual } from 'node:crypto'
+
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { defaultLocale, locales } from '@/config/i18n'
+import { redirect } from '@/navigation'
+
+// Compared in constant time, so the secret cannot be guessed from how long
+// the route takes to reject a token
+function isValidPreviewSecret(secret: string | null) {
+  const previewSecret = process.env.PREVIEW_SECRET
+
+  if (!previewSecret || !secret) {
+    return false
+  }
+
+  const expected = Buffer.from(previewSecret)
+  const received = Buffer.from(secret)
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  )
+}
+
+/**
+ * Enables draft mode and redirects to the content to preview, e.g.
+ * `/api/preview?secret=<PREVIEW_SECRET>&type=blog&locale=vi&slug=my-post`
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  if (!isValidPreviewSecret(searchParams.get('secret'))) {
+    return new NextResponse('Invalid preview token', { status: 401 })
+  }
+
+  const type = searchParams.get('type') === 'docs' ? 'docs' : 'blog'
+  const locale = (searchParams.get('locale') || defaultLocale) as LocaleOptions
+  const slug = (searchParams.get('slug') || '').replace(/^\/+|\/+$/g, '')
+
+  const localizedSlug = [locale, slug].filter(Boolean).join('/')
+  const contents = type === 'docs' ? allDocs : allBlogs
+
+  // Only redirects to existing content, so the route cannot be used as an
+  // open redirect
+  if (
+    !locales.includes(locale) ||
+    !contents.some(content => content.slugAsParams === localizedSlug)
+  ) {
+    return new NextResponse('Content not found', { status: 404 })
+  }
+
+  const draft = await draftMode()
+
+  draft.enable()
+
+  redirect({ href: slug ? `/${type}/${slug}` : `/${type}`, locale })
+}
@@ -0,0 +1,10 @@
+import { getSiteOgImage, renderOgImage } from '@/lib/core/utils/og-images'
+import { defaultLocale } from '@/config/i18n'
+
+// Default image of the site, see `siteConfig.og.image`. Rendered by the
+// build with the texts of the default locale
+export const dynamic = 'force-static'
+
+export function GET() {
+  return renderOgImage(getSiteOgImage(defaultLocale))
+}
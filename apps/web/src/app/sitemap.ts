@@ -1,7 +1,12 @@
 import { allBlogs, allDocs } from 'content-collections'
 import type { MetadataRoute } from 'next'
 
+import { getVisibleContent } from '@/lib/core/utils/publication'
+import { getAlternateLanguages } from '@/lib/core/utils/translations'
+import { splitLocalizedSlug } from '@/lib/core/utils/write-content-index'
+import { getBlogTags } from '@/lib/core/utils/tags'
 import { locales } from '@/config/i18n'
+import { getLocalizedUrl } from '@/navigation'
 import { absoluteUrl } from '@/lib/utils'
 
 type Sitemap = MetadataRoute.Sitemap
@@ -14,60 +19,47 @@ export default function sitemap(): Sitemap {
 
       alternates: {
         languages: Object.fromEntries(
-          locales.map(locale => [locale, absoluteUrl(`/${locale}`)])
-        ),
-      },
-    },
-
-    {
-      url: absoluteUrl('/docs'),
-      lastModified: new Date(),
-
-      alternates: {
-        languages: Object.fromEntries(
-          locales.map(locale => [locale, absoluteUrl(`/${locale}/docs`)])
+          locales.map(locale => [locale, getLocalizedUrl('/', locale)])
         ),
       },
     },
   ]
 
-  const docPaths: Sitemap = allDocs.map(doc => {
-    const [, ...docSlugList] = doc.slugAsParams.split('/')
-    const docSlug = docSlugList.join('/') || ''
+  // Only documents that exist in their locale are listed, the fallbacks
+  // served for missing translations are duplicates of the default locale
+  const docPaths: Sitemap = getVisibleContent(allDocs).map(doc => {
+    const { slug, locale } = splitLocalizedSlug(doc.slugAsParams)
 
     return {
-      url: absoluteUrl(`/docs/${docSlug}`),
+      url: getLocalizedUrl(slug ? `/docs/${slug}` : '/docs', locale),
       lastModified: new Date(),
 
       alternates: {
-        languages: Object.fromEntries(
-          locales.map(locale => [
-            locale,
-            absoluteUrl(`/${locale}/docs/${docSlug}`),
-          ])
-        ),
+        languages: getAlternateLanguages({ slug, locale, type: 'docs' }),
       },
     }
   })
 
-  const blogPaths: Sitemap = allBlogs.map(post => {
-    const [, ...postSlugList] = post.slugAsParams.split('/')
-    const postSlug = postSlugList.join('/') || ''
+  const blogPaths: Sitemap = getVisibleContent(allBlogs).map(post => {
+    const { slug, locale } = splitLocalizedSlug(post.slugAsParams)
 
     return {
-      url: absoluteUrl(`/blog/${postSlug}`),
+      url: getLocalizedUrl(`/blog/${slug}`, locale),
       lastModified: new Date(),
 
       alternates: {
-        languages: Object.fromEntries(
-          locales.map(locale => [
-            locale,
-            absoluteUrl(`/${locale}/blog/${postSlug}`),
-          ])
-        ),
+        languages: getAlternateLanguages({ slug, locale, type: 'blog' }),
       },
     }
   })
 
-  return [...paths, ...docPaths, ...blogPaths]
+  // Tags are named per language, so each tag page only exists in one locale
+  const tagPaths: Sitemap = locales.flatMap(locale =>
+    getBlogTags(locale).map(tag => ({
+      url: getLocalizedUrl(`/blog/tags/${tag.slug}`, locale),
+      lastModified: new Date(),
+    }))
+  )
+
+  return [...paths, ...docPaths, ...blogPaths, ...tagPaths]
 }
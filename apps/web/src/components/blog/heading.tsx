@@ -2,11 +2,14 @@ import Balancer from 'react-wrap-balancer'
 
 import { DocNotAvailableInThisLanguage } from '../docs/not-available'
 import { getObjectValueByLocale } from '@/lib/core/utils/locale'
+import { getPublicationStatus } from '@/lib/core/utils/publication'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
 import type { Blog } from 'content-collections'
 import { cn, formatDate } from '@/lib/utils'
 import { dateLocales } from '@/config/i18n'
+import { RelativeDate } from './relative-date'
 import { ReadTime } from './read-time'
+import { Badge } from '../ui/badge'
 
 interface BlogPostHeadingProps {
   locale: LocaleOptions
@@ -14,7 +17,8 @@ interface BlogPostHeadingProps {
 
   messages: {
     by: string
-    min_read: string
+    draft: string
+    scheduled: string
   }
 }
 
@@ -23,8 +27,29 @@ export function BlogPostHeading({
   locale,
   messages,
 }: BlogPostHeadingProps) {
+  // Only reachable in development, production builds leave these posts out
+  const publicationStatus = getPublicationStatus(post)
+
   return (
     <div className="flex flex-col space-y-2 gap-2">
+      {publicationStatus === 'draft' && (
+        <Badge className="w-fit" variant="destructive">
+          {messages.draft}
+        </Badge>
+      )}
+
+      {publicationStatus === 'scheduled' && post.publishAt && (
+        <Badge className="w-fit" variant="outline">
+          {messages.scheduled}{' '}
+          <time dateTime={post.publishAt}>
+            {formatDate(
+              post.publishAt,
+              getObjectValueByLocale(dateLocales, locale)
+            )}
+          </time>
+        </Badge>
+      )}
+
       <h1
         className={cn(
           'scroll-m-20 text-4xl sm:text-6xl font-bold tracking-tight'
@@ -37,15 +62,16 @@ export function BlogPostHeading({
         <ReadTime
           className="text-md max-w-max"
           iconSize={13}
-          messages={{ min_read: messages.min_read }}
           time={post.readTimeInMinutes}
           variant="unstyled"
         />
 
         <div className="inline-flex flex-wrap items-center gap-2">
-          <time className="text-sm text-gray-500" dateTime={post.date}>
-            {formatDate(post.date, getObjectValueByLocale(dateLocales, locale))}
-          </time>
+          <RelativeDate
+            className="text-sm text-gray-500"
+            date={post.date}
+            locale={locale}
+          />
 
           {post.author?.name && (
             <span className="truncate max-w-52">
@@ -63,7 +89,12 @@ export function BlogPostHeading({
         </p>
       )}
 
-      {post.notAvailable && <DocNotAvailableInThisLanguage locale={locale} />}
+      {post.notAvailable && (
+        <DocNotAvailableInThisLanguage
+          slugAsParams={post.slugAsParams}
+          type="blog"
+        />
+      )}
     </div>
   )
 }
@@ -5,17 +5,13 @@ import Balancer from 'react-wrap-balancer'
 import { compareDesc } from 'date-fns'
 import { useMemo } from 'react'
 
-import {
-  getSlugWithoutLocale,
-  getObjectValueByLocale,
-} from '@/lib/core/utils/locale'
-
+import type { BlogIndexEntry } from '@/lib/core/types/content-index'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
-import { cn, formatDate, truncateText } from '@/lib/utils'
+import type { BlogTag } from '@/lib/core/types/blog'
+import { cn, truncateText } from '@/lib/utils'
 import { BlogPostItemTags } from './post-item-tags'
-import type { Blog } from 'content-collections'
+import { RelativeDate } from './relative-date'
 import { buttonVariants } from '../ui/button'
-import { dateLocales } from '@/config/i18n'
 import { Pagination } from './pagination'
 import { RSSToggle } from './rss-toggle'
 import { ReadTime } from './read-time'
@@ -23,19 +19,15 @@ import { Link } from '@/navigation'
 import { Card } from '../ui/card'
 
 interface PaginatedBlogPostsProps {
-  posts: Blog[]
+  posts: BlogIndexEntry[]
   perPage?: number
   locale: LocaleOptions
+  currentTag?: Pick<BlogTag, 'slug' | 'name'>
 
   messages: {
     by: string
-    next: string
-    previous: string
-    min_read: string
     rss_feed: string
     read_more: string
-    go_to_next_page: string
-    go_to_previous_page: string
   }
 }
 
@@ -43,10 +35,10 @@ export function PaginatedBlogPosts({
   posts,
   locale,
   messages,
+  currentTag,
   perPage = 10,
 }: PaginatedBlogPostsProps) {
   const searchParams = useSearchParams()
-  const tag = searchParams.get('tag')
 
   const currentPage = useMemo(() => {
     const page = searchParams.get('page')
@@ -54,26 +46,12 @@ export function PaginatedBlogPosts({
     return page ? Number.parseInt(page, 10) : 1
   }, [searchParams])
 
-  const blogPosts = useMemo(() => {
-    let blogPosts = posts
-
-    if (tag) {
-      blogPosts = blogPosts.filter(post => post.tags?.includes(decodeURI(tag)))
-    }
-
-    return blogPosts
-  }, [posts, tag])
-
   const sortedPosts = useMemo(
     () =>
-      blogPosts
-        .filter(post => {
-          const [localeFromSlug] = post.slugAsParams.split('/')
-
-          return localeFromSlug === locale
-        })
+      posts
+        .filter(post => post.locale === locale)
         .sort((a, b) => compareDesc(new Date(a.date), new Date(b.date))),
-    [blogPosts, locale]
+    [posts, locale]
   )
 
   const totalOfPages = useMemo(
@@ -89,6 +67,7 @@ export function PaginatedBlogPosts({
   return (
     <main className="relative max-w-5xl mx-auto space-y-6 grid">
       <RSSToggle
+        tag={currentTag}
         messages={{
           rss_feed: messages.rss_feed,
         }}
@@ -101,29 +80,18 @@ export function PaginatedBlogPosts({
         })}
       >
         {paginatedPosts.map(post => {
-          const postLink = getSlugWithoutLocale(post.slug, 'blog')
+          const postLink = `/blog/${post.slug}`
 
           return (
             <Card
               className="flex flex-col p-4 md:p-8 w-full h-full backdrop-blur-lg dark:bg-card-primary justify-between"
-              key={post._id}
+              key={post.slug}
             >
               <div>
                 <div className="flex items-center mb-2 text-xs text-muted-foreground justify-between gap-1">
-                  <time dateTime={post.date}>
-                    {formatDate(
-                      post.date,
-                      getObjectValueByLocale(dateLocales, locale)
-                    )}
-                  </time>
-
-                  <ReadTime
-                    messages={{
-                      min_read: messages.min_read,
-                    }}
-                    time={post.readTimeInMinutes}
-                    variant="unstyled"
-                  />
+                  <RelativeDate date={post.date} locale={locale} />
+
+                  <ReadTime time={post.readTime} variant="unstyled" />
                 </div>
 
                 <Link
@@ -140,7 +108,7 @@ export function PaginatedBlogPosts({
                 </p>
               </div>
 
-              <BlogPostItemTags post={post} />
+              <BlogPostItemTags currentTag={currentTag?.slug} post={post} />
 
               <Link
                 className={cn(
@@ -157,11 +125,7 @@ export function PaginatedBlogPosts({
         })}
       </div>
 
-      <Pagination
-        messages={messages}
-        numberOfPages={totalOfPages}
-        pagesToShow={10}
-      />
+      <Pagination numberOfPages={totalOfPages} pagesToShow={10} />
     </main>
   )
 }
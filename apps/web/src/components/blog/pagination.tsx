@@ -1,6 +1,7 @@
 'use client'
 
 import { useSearchParams } from 'next/navigation'
+import { useTranslations } from 'next-intl'
 import { useMemo } from 'react'
 
 import {
@@ -18,20 +19,13 @@ import { cn } from '@/lib/utils'
 interface PaginationProps {
   numberOfPages: number
   pagesToShow?: number
-
-  messages: {
-    next: string
-    previous: string
-    go_to_next_page: string
-    go_to_previous_page: string
-  }
 }
 
 export function Pagination({
-  messages,
   numberOfPages,
   pagesToShow = 5,
 }: PaginationProps) {
+  const t = useTranslations('blog.pagination')
   const searchParams = useSearchParams()
 
   const currentPage = useMemo(() => {
@@ -40,6 +34,15 @@ export function Pagination({
     return page ? Number.parseInt(page, 10) : 1
   }, [searchParams])
 
+  // Keeps the other search params, like the active tag or search query
+  function getPageHref(page: number) {
+    const pageSearchParams = new URLSearchParams(searchParams.toString())
+
+    pageSearchParams.set('page', String(page))
+
+    return `?${pageSearchParams.toString()}`
+  }
+
   const hasPreviousPage = currentPage > 1
   const hasNextPage = currentPage < numberOfPages
 
@@ -61,17 +64,20 @@ export function Pagination({
   }, [currentPage, numberOfPages, pagesToShow])
 
   return (
-    <RawPagination className="flex justify-center overflow-x-auto">
+    <RawPagination
+      aria-label={t('page_of', { page: currentPage, total: numberOfPages })}
+      className="flex justify-center overflow-x-auto"
+    >
       <PaginationContent className="flex flex-wrap items-end space-x-2 space-y-2 sm:space-x-3 sm:space-y-0">
         <PaginationItem>
           <PaginationPrevious
-            aria-label={messages.go_to_previous_page}
+            aria-label={t('go_to_previous_page')}
             className={cn({
               'opacity-50 pointer-events-none': !hasPreviousPage,
             })}
-            href={hasPreviousPage ? `?page=${currentPage - 1}` : '#'}
+            href={hasPreviousPage ? getPageHref(currentPage - 1) : '#'}
           >
-            {messages.previous}
+            {t('previous')}
           </PaginationPrevious>
         </PaginationItem>
 
@@ -91,7 +97,12 @@ export function Pagination({
               {shouldDisplayEllipsis ? (
                 <PaginationEllipsis />
               ) : (
-                <PaginationLink href={`?page=${page}`}>{page}</PaginationLink>
+                <PaginationLink
+                  aria-label={t('go_to_page', { page })}
+                  href={getPageHref(page)}
+                >
+                  {page}
+                </PaginationLink>
               )}
             </PaginationItem>
           )
@@ -99,11 +110,11 @@ export function Pagination({
 
         <PaginationItem>
           <PaginationNext
-            aria-label={messages.go_to_next_page}
+            aria-label={t('go_to_next_page')}
             className={cn({ 'opacity-50 pointer-events-none': !hasNextPage })}
-            href={hasNextPage ? `?page=${currentPage + 1}` : '#'}
+            href={hasNextPage ? getPageHref(currentPage + 1) : '#'}
           >
-            {messages.next}
+            {t('next')}
           </PaginationNext>
         </PaginationItem>
       </PaginationContent>
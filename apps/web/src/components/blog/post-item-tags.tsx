@@ -1,7 +1,5 @@
-'use client'
-
-import type { Blog } from 'content-collections'
-import { useSearchParams } from 'next/navigation'
+import type { BlogIndexEntry } from '@/lib/core/types/content-index'
+import { getBlogTagHref, getBlogTagSlug } from '@/lib/core/utils/tags'
 
 import { PaginationEllipsis } from '../ui/pagination'
 import { Link } from '@/navigation'
@@ -9,13 +7,14 @@ import { Badge } from '../ui/badge'
 
 export function BlogPostItemTags({
   post,
+  currentTag,
   limitOfTagsToDisplay = 5,
 }: {
-  post: Blog
+  post: BlogIndexEntry
+  /** Slug of the tag page the post is listed on */
+  currentTag?: string
   limitOfTagsToDisplay?: number
 }) {
-  const searchParams = useSearchParams()
-
   const totalOfTags = post?.tags?.length || 0
   const shouldDisplayEllipsis = totalOfTags > limitOfTagsToDisplay
 
@@ -40,12 +39,8 @@ export function BlogPostItemTags({
   return (
     <div className="w-fit flex flex-wrap items-center gap-2 pt-4">
       {tags.map(tag => {
-        const currentTag = searchParams.get('tag') || ''
-        const isCurrentTagActive = tag === currentTag
-
-        const href = isCurrentTagActive
-          ? '/blog'
-          : `/blog?tag=${encodeURI(tag)}`
+        const isCurrentTagActive = getBlogTagSlug(tag) === currentTag
+        const href = isCurrentTagActive ? '/blog' : getBlogTagHref(tag)
 
         return (
           <Link href={href} key={tag}>
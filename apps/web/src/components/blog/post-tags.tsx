@@ -1,4 +1,5 @@
 import type { Blog } from 'content-collections'
+import { getBlogTagHref } from '@/lib/core/utils/tags'
 import { badgeVariants } from '../ui/badge'
 import { Link } from '@/navigation'
 import { cn } from '@/lib/utils'
@@ -13,7 +14,7 @@ export async function BlogPostTags({ post }: { post: Blog }) {
       {post.tags.map(tag => (
         <Link
           className={cn(badgeVariants({ variant: 'secondary' }), 'gap-1')}
-          href={`/blog?tag=${encodeURI(tag)}`}
+          href={getBlogTagHref(tag)}
           key={tag}
         >
           {tag}
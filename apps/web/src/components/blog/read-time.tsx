@@ -1,3 +1,4 @@
+import { useTranslations } from 'next-intl'
 import { Clock } from 'lucide-react'
 
 import { Badge, type BadgeProps } from '../ui/badge'
@@ -6,19 +7,16 @@ import { cn } from '@/lib/utils'
 interface ReadTimeProps extends BadgeProps {
   time: number
   iconSize?: number
-
-  messages: {
-    min_read: string
-  }
 }
 
 export function ReadTime({
   time,
-  messages,
   className,
   iconSize = 10,
   ...props
 }: ReadTimeProps) {
+  const t = useTranslations('blog.cards')
+
   if (!time) {
     return null
   }
@@ -29,8 +27,8 @@ export function ReadTime({
       variant="secondary"
       {...props}
     >
-      <Clock className="max-h-full" size={iconSize} /> {time}{' '}
-      {messages.min_read}
+      <Clock className="max-h-full" size={iconSize} />{' '}
+      {t('min_read', { count: time })}
     </Badge>
   )
 }
@@ -0,0 +1,69 @@
+import Balancer from 'react-wrap-balancer'
+import type { Blog } from 'content-collections'
+
+import { getRelatedBlogIndex } from '@/lib/core/utils/content-index'
+import { splitLocalizedSlug } from '@/lib/core/utils/write-content-index'
+import { cn, truncateText } from '@/lib/utils'
+import { RelativeDate } from './relative-date'
+import { ReadTime } from './read-time'
+import { Link } from '@/navigation'
+import { Card } from '../ui/card'
+
+interface RelatedPostsProps {
+  post: Blog
+  className?: string
+
+  messages: {
+    related_posts: string
+  }
+}
+
+export function RelatedPosts({ post, messages, className }: RelatedPostsProps) {
+  const { slug, locale } = splitLocalizedSlug(post.slugAsParams)
+  const relatedPosts = getRelatedBlogIndex({ slug, locale })
+
+  if (relatedPosts.length === 0) {
+    return null
+  }
+
+  return (
+    <section className={cn('space-y-4', className)}>
+      <h2 className="text-2xl font-semibold tracking-tight">
+        {messages.related_posts}
+      </h2>
+
+      <div
+        className={cn('grid gap-4 grid-cols-1', {
+          'md:grid-cols-2': relatedPosts.length === 2,
+          'md:grid-cols-3': relatedPosts.length >= 3,
+        })}
+      >
+        {relatedPosts.map(relatedPost => (
+          <Card
+            className="flex flex-col p-4 w-full h-full backdrop-blur-lg dark:bg-card-primary"
+            key={relatedPost.slug}
+          >
+            <div className="flex items-center mb-2 text-xs text-muted-foreground justify-between gap-1">
+              <RelativeDate date={relatedPost.date} locale={locale} />
+
+              <ReadTime time={relatedPost.readTime} variant="unstyled" />
+            </div>
+
+            <Link
+              className="hover:opacity-65 transition-all"
+              href={`/blog/${relatedPost.slug}`}
+            >
+              <h3 className="text-lg py-2">
+                <Balancer>{relatedPost.title}</Balancer>
+              </h3>
+            </Link>
+
+            <p className="text-sm text-muted-foreground">
+              {truncateText(relatedPost.excerpt, 100)}
+            </p>
+          </Card>
+        ))}
+      </div>
+    </section>
+  )
+}
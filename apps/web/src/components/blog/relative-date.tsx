@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Tooltip, TooltipContent, TooltipTrigger } from '../ui/tooltip'
+import { formatDate, formatRelativeDate } from '@/lib/utils'
+import { getObjectValueByLocale } from '@/lib/core/utils/locale'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { dateLocales } from '@/config/i18n'
+
+interface RelativeDateProps {
+  date: string
+  locale: LocaleOptions
+  className?: string
+}
+
+/**
+ * Date relative to now, e.g. "3 ngày trước", with the absolute date in a
+ * tooltip. Pages are static, so the absolute date is rendered until the
+ * browser knows the current time
+ */
+export function RelativeDate({ date, locale, className }: RelativeDateProps) {
+  const dateLocale = getObjectValueByLocale(dateLocales, locale)
+  const absoluteDate = formatDate(date, dateLocale)
+
+  const [relativeDate, setRelativeDate] = useState<string>()
+
+  useEffect(() => {
+    setRelativeDate(formatRelativeDate(date, dateLocale))
+  }, [date, dateLocale])
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <time className={className} dateTime={date}>
+          {relativeDate ?? absoluteDate}
+        </time>
+      </TooltipTrigger>
+
+      <TooltipContent>{absoluteDate}</TooltipContent>
+    </Tooltip>
+  )
+}
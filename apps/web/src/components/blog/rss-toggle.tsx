@@ -1,7 +1,7 @@
 'use client'
 
-import { type PointerEvent, useState } from 'react'
-import { useLocale } from 'next-intl'
+import { Fragment, type PointerEvent, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
 import ExternalLink from 'next/link'
 import { Rss } from 'lucide-react'
 
@@ -10,25 +10,57 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
   DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu'
 
+import type { BlogFeedFilter } from '@/lib/core/types/blog'
+import { getFeedPath } from '@/lib/core/utils/feeds'
 import { useIsMobile } from '@/lib/core/hooks/use-is-mobile'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
 import { Button, buttonVariants } from '@/components/ui/button'
 import { blogConfig } from '@/config/blog'
 import { cn } from '@/lib/utils'
 
 interface RSSToggleProps {
+  /** Tag of the listed posts, its feeds are listed too */
+  tag?: {
+    slug: string
+    name: string
+  }
+
   messages: {
     rss_feed: string
   }
 }
 
-export function RSSToggle({ messages }: RSSToggleProps) {
+export function RSSToggle({ tag, messages }: RSSToggleProps) {
+  const t = useTranslations('blog.feeds')
   const isMobile = useIsMobile()
-  const currentLocale = useLocale()
+  const currentLocale = useLocale() as LocaleOptions
 
   const [open, setOpen] = useState(false)
 
+  const feedGroups: { title: string; filter?: BlogFeedFilter }[] = [
+    { title: t('all') },
+  ]
+
+  if (tag) {
+    feedGroups.push({
+      title: t('tag', { tag: tag.name }),
+      filter: { tag: tag.slug },
+    })
+  }
+
+  for (const { id, name } of blogConfig.authors) {
+    if (id) {
+      feedGroups.push({
+        title: t('author', { author: name ?? id }),
+        filter: { author: id },
+      })
+    }
+  }
+
   function openDropdown() {
     setOpen(() => true)
   }
@@ -76,17 +108,27 @@ export function RSSToggle({ messages }: RSSToggleProps) {
         role="menu"
       >
         <div className="w-full">
-          {blogConfig.rss.map(({ file, type }) => (
-            <DropdownMenuItem asChild key={file}>
-              <ExternalLink
-                aria-label={type}
-                href={`/${currentLocale}/feed/${file}`}
-                rel="noreferrer"
-                target="_blank"
-              >
-                {type}
-              </ExternalLink>
-            </DropdownMenuItem>
+          {feedGroups.map(({ title, filter }, index) => (
+            <Fragment key={title}>
+              {index > 0 && <DropdownMenuSeparator />}
+
+              <DropdownMenuLabel className="text-xs text-muted-foreground">
+                {title}
+              </DropdownMenuLabel>
+
+              {blogConfig.rss.map(rss => (
+                <DropdownMenuItem asChild key={rss.file}>
+                  <ExternalLink
+                    aria-label={`${title} - ${rss.type}`}
+                    href={getFeedPath({ rss, filter, locale: currentLocale })}
+                    rel="noreferrer"
+                    target="_blank"
+                  >
+                    {rss.type}
+                  </ExternalLink>
+                </DropdownMenuItem>
+              ))}
+            </Fragment>
           ))}
         </div>
       </DropdownMenuContent>
@@ -0,0 +1,125 @@
+import { ChevronLeftIcon, ChevronRightIcon } from '@radix-ui/react-icons'
+import type { Blog } from 'content-collections'
+
+import { getBlogSeriesForPost } from '@/lib/core/utils/series'
+import { buttonVariants } from '../ui/button'
+import { Link } from '@/navigation'
+import { Card } from '../ui/card'
+import { cn } from '@/lib/utils'
+
+interface BlogSeriesProps {
+  post: Blog
+  className?: string
+
+  messages: {
+    series: string
+    view_series: string
+  }
+}
+
+export function BlogSeriesBox({
+  post,
+  messages,
+  className,
+}: BlogSeriesProps) {
+  const seriesForPost = getBlogSeriesForPost(post)
+
+  if (!seriesForPost) {
+    return null
+  }
+
+  const { series, index } = seriesForPost
+
+  return (
+    <Card
+      className={cn(
+        'backdrop-blur-lg dark:bg-card-primary w-full p-4 md:p-6 space-y-3',
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {messages.series}{' '}
+          <span className="font-medium text-foreground">{series.title}</span>
+        </p>
+
+        <Link
+          className={cn(buttonVariants({ variant: 'link' }), 'h-fit p-0')}
+          href={`/blog/series/${series.slug}`}
+        >
+          {messages.view_series}
+        </Link>
+      </div>
+
+      <ol className="list-decimal space-y-1 pl-5 text-sm">
+        {series.parts.map((part, partIndex) => (
+          <li
+            className={cn({
+              'font-semibold text-primary': partIndex === index,
+              'text-muted-foreground': partIndex !== index,
+            })}
+            key={part.slug}
+          >
+            {partIndex === index ? (
+              <span aria-current="page">{part.title}</span>
+            ) : (
+              <Link
+                className="hover:text-foreground transition-colors"
+                href={`/blog/${part.slug}`}
+              >
+                {part.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Card>
+  )
+}
+
+export function BlogSeriesPager({
+  post,
+  className,
+}: Omit<BlogSeriesProps, 'messages'>) {
+  const seriesForPost = getBlogSeriesForPost(post)
+
+  if (!seriesForPost) {
+    return null
+  }
+
+  const { previous, next } = seriesForPost
+
+  return (
+    <div
+      className={cn(
+        'flex flex-row items-center justify-between gap-2',
+        className
+      )}
+    >
+      {previous && (
+        <Link
+          className={cn(buttonVariants({ variant: 'outline' }), 'max-w-[48%]')}
+          href={`/blog/${previous.slug}`}
+        >
+          <ChevronLeftIcon className="mr-2 size-4 shrink-0" />
+
+          <span className="truncate">{previous.title}</span>
+        </Link>
+      )}
+
+      {next && (
+        <Link
+          className={cn(
+            buttonVariants({ variant: 'outline' }),
+            'ml-auto max-w-[48%]'
+          )}
+          href={`/blog/${next.slug}`}
+        >
+          <span className="truncate">{next.title}</span>
+
+          <ChevronRightIcon className="ml-2 size-4 shrink-0" />
+        </Link>
+      )}
+    </div>
+  )
+}
@@ -22,7 +22,7 @@ export async function CodeBlock({
     <div
       className={cn(
         'mb-4 mt-6 max-h-[650px] overflow-x-auto p-4 overflow-auto rounded-lg border py-4',
-        'bg-primary dark:bg-zinc-900 text-white',
+        'bg-zinc-100 text-zinc-950 dark:bg-zinc-900 dark:text-white',
         className
       )}
       {...props}
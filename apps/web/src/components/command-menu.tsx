@@ -1,6 +1,13 @@
 'use client'
 
-import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  Fragment,
+  useMemo,
+  useState,
+  useEffect,
+  useCallback,
+  useDeferredValue,
+} from 'react'
 import type { AlertDialogProps } from '@radix-ui/react-alert-dialog'
 import { useRouter } from '@/navigation'
 import { useTheme } from 'next-themes'
@@ -13,16 +20,30 @@ import {
   CircleIcon,
   LaptopIcon,
   FileTextIcon,
+  MagnifyingGlassIcon,
 } from '@radix-ui/react-icons'
 
 import { useBlogConfig } from '@/lib/core/hooks/use-blog-config'
 import { useDocsConfig } from '@/lib/core/hooks/use-docs-config'
 import { getObjectValueByLocale } from '@/lib/core/utils/locale'
 import type { NavItemWithChildren } from '@/lib/core/types/nav'
-import { allBlogs } from 'content-collections'
+import { getBlogIndex } from '@/lib/core/utils/document-index'
+import { loadSearchIndex } from '@/lib/core/utils/search-index'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import type { SearchResult } from '@/lib/core/types/search'
+import { SearchSnippet } from '@/components/search-snippet'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 
+import {
+  searchContent,
+  foldSearchText,
+  getSearchTerms,
+  getSearchPageHref,
+  getSearchResultHref,
+  type SearchIndex,
+} from '@/lib/core/utils/search'
+
 import {
   CommandDialog,
   CommandEmpty,
@@ -33,6 +54,95 @@ import {
   CommandSeparator,
 } from './ui/command'
 
+const maxSearchResults = 8
+
+// Items match when they contain every word of the search regardless of
+// diacritics, so `tai lieu` finds `Tài liệu` like the full-text results do
+function filterCommandItem(value: string, search: string, keywords?: string[]) {
+  const text = foldSearchText([value, ...(keywords ?? [])].join(' '))
+
+  return getSearchTerms(search).every(term => text.includes(term)) ? 1 : 0
+}
+
+function SearchCommandMenu({
+  query,
+  results,
+  runCommand,
+  messages,
+}: {
+  query: string
+  results: SearchResult[]
+  runCommand: (command: () => unknown) => void
+  messages: {
+    results: string
+    seeAllResults: string
+  }
+}) {
+  const router = useRouter()
+
+  if (results.length === 0) {
+    return null
+  }
+
+  // Results are already ranked by the search index, `forceMount` keeps cmdk
+  // from filtering them again with its own matching
+  return (
+    <CommandGroup forceMount heading={messages.results}>
+      {results.map(({ section, snippet }) => {
+        const href = getSearchResultHref(section)
+        const Icon = section.type === 'blog' ? FileTextIcon : FileIcon
+
+        return (
+          <CommandItem
+            forceMount
+            key={href}
+            onSelect={() => {
+              runCommand(() => router.push(href))
+            }}
+            value={href}
+          >
+            <div className="mx-1 flex size-4 shrink-0 items-center justify-center">
+              <Icon className="size-4" />
+            </div>
+
+            <div className="flex w-full min-w-0 flex-col gap-1 p-2">
+              <p className="truncate font-medium">
+                {section.title}
+
+                {section.heading && (
+                  <span className="text-muted-foreground">
+                    {' '}
+                    › {section.heading}
+                  </span>
+                )}
+              </p>
+
+              <SearchSnippet
+                className="text-muted-foreground line-clamp-2 text-xs"
+                segments={snippet}
+              />
+            </div>
+          </CommandItem>
+        )
+      })}
+
+      <CommandItem
+        forceMount
+        onSelect={() => {
+          runCommand(() => router.push(getSearchPageHref(query)))
+        }}
+        value={getSearchPageHref(query)}
+      >
+        <div className="mx-1 flex size-4 shrink-0 items-center justify-center">
+          <MagnifyingGlassIcon className="size-4" />
+        </div>
+
+        <span className="p-2">{messages.seeAllResults}</span>
+      </CommandItem>
+    </CommandGroup>
+  )
+}
+
 function DocsCommandMenu({
   runCommand,
   messages,
@@ -122,24 +232,15 @@ function BlogCommandMenu({
   const router = useRouter()
   const locale = useLocale()
 
-  const posts = useMemo(() => {
-    return allBlogs.filter(post => {
-      const [postLocale] = post.slugAsParams.split('/')
-
-      return postLocale === locale
-    })
-  }, [locale])
+  const posts = useMemo(() => getBlogIndex(locale as LocaleOptions), [locale])
 
   return (
     <CommandGroup heading={messages.blog}>
       {posts.map(post => (
         <CommandItem
-          key={post._id}
+          key={post.slug}
           onSelect={() => {
-            const [, ...slugs] = post.slugAsParams.split('/')
-            const slug = slugs.join('/')
-
-            runCommand(() => router.push(`/blog/${slug}`))
+            runCommand(() => router.push(`/blog/${post.slug}`))
           }}
           value={`${post.title} ${post.excerpt} ${post.tags.join(' ')}`}
         >
@@ -162,6 +263,8 @@ interface CommandMenuProps extends AlertDialogProps {
     docs: string
     blog: string
     search: string
+    results: string
+    seeAllResults: string
     noResultsFound: string
     searchDocumentation: string
     typeCommandOrSearch: string
@@ -177,10 +280,14 @@ interface CommandMenuProps extends AlertDialogProps {
 
 export function CommandMenu({ messages, ...props }: CommandMenuProps) {
   const router = useRouter()
+  const locale = useLocale()
   const { setTheme } = useTheme()
   const docsConfig = useDocsConfig()
   const blogConfig = useBlogConfig()
   const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+  const [searchIndex, setSearchIndex] = useState<SearchIndex>()
+  const deferredSearch = useDeferredValue(search)
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -204,6 +311,34 @@ export function CommandMenu({ messages, ...props }: CommandMenuProps) {
     return () => document.removeEventListener('keydown', down)
   }, [])
 
+  useEffect(() => {
+    if (!open) {
+      setSearch('')
+
+      return
+    }
+
+    let ignore = false
+
+    loadSearchIndex(locale as LocaleOptions).then(index => {
+      if (!ignore) {
+        setSearchIndex(index)
+      }
+    })
+
+    return () => {
+      ignore = true
+    }
+  }, [open, locale])
+
+  const searchResults = useMemo(
+    () =>
+      searchIndex
+        ? searchContent(searchIndex, deferredSearch, maxSearchResults)
+        : [],
+    [searchIndex, deferredSearch]
+  )
+
   const runCommand = useCallback((command: () => unknown) => {
     setOpen(false)
     command()
@@ -235,11 +370,31 @@ export function CommandMenu({ messages, ...props }: CommandMenuProps) {
         </kbd>
       </Button>
 
-      <CommandDialog onOpenChange={setOpen} open={open}>
-        <CommandInput placeholder={`${messages.typeCommandOrSearch}...`} />
+      <CommandDialog
+        commandProps={{ filter: filterCommandItem }}
+        onOpenChange={setOpen}
+        open={open}
+      >
+        <CommandInput
+          onValueChange={setSearch}
+          placeholder={`${messages.typeCommandOrSearch}...`}
+          value={search}
+        />
 
         <CommandList>
-          <CommandEmpty>{messages.noResultsFound}.</CommandEmpty>
+          {searchResults.length === 0 && (
+            <CommandEmpty>{messages.noResultsFound}.</CommandEmpty>
+          )}
+
+          <SearchCommandMenu
+            messages={{
+              results: messages.results,
+              seeAllResults: messages.seeAllResults,
+            }}
+            query={deferredSearch}
+            results={searchResults}
+            runCommand={runCommand}
+          />
 
           <CommandGroup heading="Links">
             {mainNavs
@@ -1,15 +1,13 @@
 import Balancer from 'react-wrap-balancer'
 
 import { DocNotAvailableInThisLanguage } from './not-available'
-import type { LocaleOptions } from '@/lib/core/types/i18n'
 import type { Doc } from 'content-collections'
 
 interface DocHeadingProps {
   doc: Doc & { notAvailable: boolean }
-  locale: LocaleOptions
 }
 
-export function DocHeading({ doc, locale }: DocHeadingProps) {
+export function DocHeading({ doc }: DocHeadingProps) {
   return (
     <div className="space-y-2">
       <h1 className="scroll-m-20 text-4xl font-bold tracking-tight">
@@ -22,7 +20,12 @@ export function DocHeading({ doc, locale }: DocHeadingProps) {
         </p>
       )}
 
-      {doc.notAvailable && <DocNotAvailableInThisLanguage locale={locale} />}
+      {doc.notAvailable && (
+        <DocNotAvailableInThisLanguage
+          slugAsParams={doc.slugAsParams}
+          type="docs"
+        />
+      )}
     </div>
   )
 }
@@ -1,5 +1,3 @@
-'use client'
-
 import { MDXContent } from '@content-collections/mdx/react'
 import type { ComponentProps } from 'react'
 import Image from 'next/image'
@@ -156,6 +154,9 @@ interface MdxProps {
   code: string
 }
 
+// Rendered as a server component: static elements ship as RSC output and only
+// the client components in the map above (copy buttons, code block wrapper,
+// tabs and accordion) are hydrated in the browser
 export function Mdx({ code }: MdxProps) {
   return (
     <div className="mdx">
@@ -2,7 +2,7 @@
 
 import { ChevronDown, LanguagesIcon } from 'lucide-react'
 import { usePathname, useRouter } from '@/navigation'
-import { type PointerEvent, useState } from 'react'
+import { type PointerEvent, useMemo, useState } from 'react'
 import { useLocale } from 'next-intl'
 
 import {
@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 
+import { getLocalizedPathnames } from '@/lib/core/utils/translations'
 import { useIsMobile } from '@/lib/core/hooks/use-is-mobile'
 import type { LocaleOptions } from '@/lib/core/types/i18n'
 import { Button } from '@/components/ui/button'
@@ -29,10 +30,20 @@ export function I18nToggle({ messages }: I18nToggleProps) {
   const router = useRouter()
   const pathname = usePathname()
   const isMobile = useIsMobile()
-  const currentLocale = useLocale()
+  const currentLocale = useLocale() as LocaleOptions
 
   const [open, setOpen] = useState(false)
 
+  const localizedPathnames = useMemo(
+    () =>
+      getLocalizedPathnames({
+        pathname,
+        locale: currentLocale,
+        locales: locales.map(([locale]) => locale as LocaleOptions),
+      }),
+    [pathname, currentLocale]
+  )
+
   function openDropdown() {
     setOpen(() => true)
   }
@@ -46,7 +57,11 @@ export function I18nToggle({ messages }: I18nToggleProps) {
   }
 
   function changeLocale(locale: LocaleOptions) {
-    router.replace(pathname, {
+    const localizedPathname = localizedPathnames[locale]
+
+    if (!localizedPathname) return
+
+    router.replace(localizedPathname, {
       locale,
     })
   }
@@ -81,7 +96,10 @@ export function I18nToggle({ messages }: I18nToggleProps) {
         <div className="w-full">
           {locales.map(([locale, label]) => (
             <DropdownMenuItem
-              disabled={currentLocale === locale}
+              disabled={
+                currentLocale === locale ||
+                !localizedPathnames[locale as LocaleOptions]
+              }
               key={locale}
               onClick={() => changeLocale(locale as LocaleOptions)}
             >
@@ -36,7 +36,7 @@ export const InstallationBox = async ({
     <div className="relative">
       <pre
         className={cn(
-          'mb-4 mt-6 max-h-162.5 overflow-x-auto rounded-lg border bg-zinc-950 py-4 text-white dark:bg-zinc-900',
+          'mb-4 mt-6 max-h-162.5 overflow-x-auto rounded-lg border bg-zinc-100 py-4 text-zinc-950 dark:bg-zinc-900 dark:text-white',
           className
         )}
         {...props}
@@ -46,7 +46,10 @@ export const InstallationBox = async ({
 
       {__rawString__ && !__npmCommand__ && (
         <CopyButton
-          className={cn('absolute right-4 top-10')}
+          className={cn(
+            'absolute right-4 top-10',
+            'text-zinc-950 hover:bg-zinc-200 hover:text-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-700 dark:hover:text-zinc-50'
+          )}
           src={__src__}
           value={__rawString__}
         />
@@ -56,7 +59,10 @@ export const InstallationBox = async ({
         __pnpmCommand__ &&
         __bunCommand__ && (
           <CopyNpmCommandButton
-            className={cn('absolute right-4 top-10')}
+            className={cn(
+              'absolute right-4 top-10',
+              'text-zinc-950 hover:bg-zinc-200 hover:text-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-700 dark:hover:text-zinc-50'
+            )}
             commands={{
               __bunCommand__,
               __npmCommand__,
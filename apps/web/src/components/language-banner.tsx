@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useLocale } from 'next-intl'
+import { X } from 'lucide-react'
+
+import { getLocalizedPathnames } from '@/lib/core/utils/translations'
+import { getCookie, setCookie } from '@/lib/core/utils/cookies'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { localeCookies, locales } from '@/config/i18n'
+import { usePathname, useRouter } from '@/navigation'
+import { Button } from './ui/button'
+
+interface LanguageBannerProps {
+  // Written in the language they suggest, the reader may not read the
+  // language of the page
+  messages: Record<
+    LocaleOptions,
+    {
+      available: string
+      switch: string
+      dismiss: string
+    }
+  >
+}
+
+/**
+ * Suggests the language the reader picked before, or else the language of
+ * their browser, when the current page has a translation in it
+ */
+export function LanguageBanner({ messages }: LanguageBannerProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const locale = useLocale() as LocaleOptions
+
+  const [suggestion, setSuggestion] = useState<{
+    locale: LocaleOptions
+    pathname: string
+  }>()
+
+  useEffect(() => {
+    const preferred =
+      getCookie(localeCookies.choice) ?? getCookie(localeCookies.detected)
+
+    const preferredLocale = locales.find(locale => locale === preferred)
+
+    const isDismissed = getCookie(localeCookies.dismissed) === preferredLocale
+
+    const localizedPathname =
+      preferredLocale &&
+      getLocalizedPathnames({ pathname, locale, locales })[preferredLocale]
+
+    if (
+      !preferredLocale ||
+      !localizedPathname ||
+      preferredLocale === locale ||
+      isDismissed
+    ) {
+      setSuggestion(undefined)
+      return
+    }
+
+    setSuggestion({ locale: preferredLocale, pathname: localizedPathname })
+  }, [locale, pathname])
+
+  if (!suggestion) {
+    return null
+  }
+
+  const suggestionMessages = messages[suggestion.locale]
+
+  function dismiss() {
+    if (suggestion) {
+      setCookie(localeCookies.dismissed, suggestion.locale)
+    }
+
+    setSuggestion(undefined)
+  }
+
+  return (
+    <div className="border-b bg-muted/50 text-sm" lang={suggestion.locale}>
+      <div className="container flex items-center justify-center gap-4 py-2">
+        <span>{suggestionMessages.available}</span>
+
+        <Button
+          className="h-auto p-0"
+          onClick={() =>
+            router.replace(suggestion.pathname, { locale: suggestion.locale })
+          }
+          variant="link"
+        >
+          {suggestionMessages.switch}
+        </Button>
+
+        <Button
+          className="size-6"
+          onClick={dismiss}
+          size="icon"
+          variant="ghost"
+        >
+          <X className="size-4" />
+          <span className="sr-only">{suggestionMessages.dismiss}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
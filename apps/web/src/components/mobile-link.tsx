@@ -5,7 +5,8 @@ import type { LinkProps } from 'next/link'
 import { Link, useRouter } from '@/navigation'
 import { cn } from '@/lib/utils'
 
-export interface MobileLinkProps extends Omit<LinkProps, 'locale'> {
+export interface MobileLinkProps extends Omit<LinkProps, 'locale' | 'href'> {
+  href: string
   onOpenChange?: (open: boolean) => void
   children: React.ReactNode
   className?: string
@@ -29,7 +30,7 @@ export function MobileLink({
       className={cn(className)}
       href={href}
       onClick={() => {
-        router.push(href.toString())
+        router.push(href)
         onOpenChange?.(false)
       }}
       {...linkProps}
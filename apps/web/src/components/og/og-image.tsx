@@ -0,0 +1,278 @@
+/** biome-ignore-all lint/performance/noImgElement: Using img elements for OG image generation */
+import type { OgTemplate } from '@/config/og'
+import { truncateText } from '@/lib/utils'
+import { siteConfig } from '@/config/site'
+
+export interface OgImageProps {
+  template: OgTemplate
+  title: string
+  /** Shown above the title, like the breadcrumb of a doc */
+  eyebrow?: string
+  description?: string
+  tags?: string[]
+  /** Localized texts, e.g. `5 phút đọc` */
+  readTime?: string
+  date?: string
+
+  author?: {
+    name: string
+    image?: string
+  }
+
+  /** Data URLs of the assets, see `getOgAsset` */
+  background?: string
+  logo?: string
+}
+
+type Template = (props: OgImageProps) => React.ReactNode
+
+const templates: Record<OgTemplate, Template> = {
+  classic: ClassicTemplate,
+  minimal: MinimalTemplate,
+  split: SplitTemplate,
+}
+
+export function OgImage(props: OgImageProps) {
+  const Template = templates[props.template]
+
+  return (
+    <div
+      tw={`flex w-full h-[${siteConfig.og.size.height}px] bg-black text-white`}
+    >
+      <Template {...props} />
+    </div>
+  )
+}
+
+function ClassicTemplate(props: OgImageProps) {
+  return (
+    <div tw="flex w-full h-full relative">
+      <Background seed={props.title} src={props.background} />
+
+      <div tw="flex flex-col justify-between w-full h-full py-12 px-14">
+        <Brand logo={props.logo} />
+
+        <div tw="flex flex-col">
+          {props.eyebrow && (
+            <span tw="text-gray-300 text-3xl">{props.eyebrow}</span>
+          )}
+
+          <h1 tw="text-7xl font-bold leading-tight my-4">
+            {truncateText(props.title, 70)}
+          </h1>
+
+          {props.description && (
+            <p tw="text-gray-300 text-3xl m-0">
+              {truncateText(props.description, 110)}
+            </p>
+          )}
+        </div>
+
+        <div tw="flex items-center justify-between">
+          <Byline {...props} />
+          <Tags tags={props.tags} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function MinimalTemplate(props: OgImageProps) {
+  return (
+    <div tw="flex w-full h-full">
+      <div
+        style={{ backgroundImage: getGradient(props.title) }}
+        tw="flex w-4 h-full"
+      />
+
+      <div tw="flex flex-col justify-center w-full h-full px-20">
+        {props.eyebrow && (
+          <span tw="text-gray-400 text-3xl">{props.eyebrow}</span>
+        )}
+
+        <h1 tw="text-7xl font-bold leading-tight my-6">
+          {truncateText(props.title, 70)}
+        </h1>
+
+        <Byline {...props} />
+
+        {!!props.tags?.length && (
+          <span tw="text-gray-400 text-2xl pt-8">
+            {props.tags
+              .slice(0, 4)
+              .map(tag => `#${tag}`)
+              .join('  ')}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SplitTemplate(props: OgImageProps) {
+  return (
+    <div tw="flex w-full h-full">
+      <div tw="flex flex-col items-center justify-center w-[420px] h-full relative">
+        <Background seed={props.title} src={props.background} />
+        <Avatar author={props.author} logo={props.logo} size={220} />
+
+        <span tw="text-3xl font-bold pt-8">
+          {props.author?.name ?? siteConfig.name}
+        </span>
+      </div>
+
+      <div tw="flex flex-col justify-between flex-1 h-full py-14 px-14">
+        <div tw="flex flex-col">
+          {props.eyebrow && (
+            <span tw="text-gray-400 text-2xl">{props.eyebrow}</span>
+          )}
+
+          <h1 tw="text-6xl font-bold leading-tight my-4">
+            {truncateText(props.title, 80)}
+          </h1>
+
+          {props.description && (
+            <p tw="text-gray-400 text-2xl m-0">
+              {truncateText(props.description, 140)}
+            </p>
+          )}
+        </div>
+
+        <div tw="flex flex-col">
+          <Tags tags={props.tags} />
+
+          <span tw="text-gray-400 text-2xl pt-6">
+            {[props.date, props.readTime, siteConfig.name]
+              .filter(Boolean)
+              .join('  ·  ')}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function Background({ src, seed }: { src?: string; seed: string }) {
+  if (!src) {
+    return (
+      <div
+        style={{ backgroundImage: getGradient(seed) }}
+        tw="flex w-full h-full absolute left-0 top-0"
+      />
+    )
+  }
+
+  return (
+    <img
+      alt=""
+      src={src}
+      tw="w-full h-full absolute left-0 top-0 opacity-70"
+      style={{ objectFit: 'cover' }}
+    />
+  )
+}
+
+function Brand({ logo }: { logo?: string }) {
+  return (
+    <div tw="flex items-center">
+      {logo && <img alt="" src={logo} tw="w-20 h-20 rounded-full mr-5" />}
+      <span tw="text-3xl font-bold">{siteConfig.name}</span>
+    </div>
+  )
+}
+
+function Byline({ author, date, readTime }: OgImageProps) {
+  const details = [date, readTime].filter(Boolean).join('  ·  ')
+
+  if (!author && !details) {
+    return null
+  }
+
+  return (
+    <div tw="flex items-center">
+      {author && <Avatar author={author} size={72} />}
+
+      <div tw={`flex flex-col ${author ? 'ml-5' : ''}`}>
+        {author && <span tw="text-3xl font-bold">{author.name}</span>}
+        {details && <span tw="text-gray-300 text-2xl">{details}</span>}
+      </div>
+    </div>
+  )
+}
+
+function Avatar({
+  author,
+  logo,
+  size,
+}: {
+  author?: OgImageProps['author']
+  logo?: string
+  size: number
+}) {
+  const image = author ? author.image : logo
+  const style = { width: size, height: size }
+
+  if (image) {
+    return (
+      <img
+        alt=""
+        src={image}
+        style={style}
+        tw="rounded-full border-4 border-white/20"
+      />
+    )
+  }
+
+  // Authors without a picture get their initials
+  const initials = (author?.name ?? siteConfig.name)
+    .split(/\s+/)
+    .map(word => word[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase()
+
+  return (
+    <div
+      style={{ ...style, fontSize: size * 0.4 }}
+      tw="flex items-center justify-center rounded-full bg-white/15 border-4 border-white/20 font-bold"
+    >
+      {initials}
+    </div>
+  )
+}
+
+function Tags({ tags }: { tags?: string[] }) {
+  if (!tags?.length) {
+    return null
+  }
+
+  return (
+    <div tw="flex">
+      {tags.slice(0, 3).map((tag, index) => (
+        <span
+          key={tag}
+          tw={`${index ? 'ml-3' : ''} px-5 py-2 rounded-full bg-white/15 text-gray-100 text-2xl`}
+        >
+          #{tag}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Background used when the site has no background image, the hues come from
+ * `seed` so every page gets its own colors
+ */
+function getGradient(seed: string) {
+  let hash = 0
+
+  for (const char of seed) {
+    hash = (hash * 31 + (char.codePointAt(0) ?? 0)) % 360
+  }
+
+  const from = `hsl(${hash}, 70%, 28%)`
+  const to = `hsl(${(hash + 60) % 360}, 80%, 12%)`
+
+  return `linear-gradient(135deg, ${from}, ${to})`
+}
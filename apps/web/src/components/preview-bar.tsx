@@ -0,0 +1,27 @@
+import { getTranslations } from 'next-intl/server'
+import { draftMode } from 'next/headers'
+
+export async function PreviewBar() {
+  const { isEnabled } = await draftMode()
+
+  if (!isEnabled) {
+    return null
+  }
+
+  const t = await getTranslations('site.preview')
+
+  return (
+    <div className="sticky bottom-0 z-50 flex w-full items-center justify-center gap-2 bg-amber-400 px-4 py-2 text-sm text-zinc-950">
+      <span className="font-medium">{t('title')}</span>
+      <span aria-hidden="true">—</span>
+
+      {/* A plain anchor, the exit route must not be prefetched */}
+      <a
+        className="underline underline-offset-4 hover:opacity-75"
+        href="/api/preview/exit"
+      >
+        {t('exit')}
+      </a>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import type { SearchSnippetSegment } from '@/lib/core/types/search'
+
+interface SearchSnippetProps {
+  segments: SearchSnippetSegment[]
+  className?: string
+}
+
+export function SearchSnippet({ segments, className }: SearchSnippetProps) {
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            className="rounded-sm bg-yellow-200/70 text-zinc-950 dark:bg-yellow-500/30 dark:text-zinc-50"
+            // biome-ignore lint/suspicious/noArrayIndexKey: segments never reorder
+            key={index}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          // biome-ignore lint/suspicious/noArrayIndexKey: segments never reorder
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,86 @@
+import type { BlogIndexEntry } from '@/lib/core/types/content-index'
+import type { SearchFilters } from '@/lib/core/types/search'
+import { getSearchPageHref } from '@/lib/core/utils/search'
+import { badgeVariants } from '../ui/badge'
+import { Link } from '@/navigation'
+import { cn } from '@/lib/utils'
+
+interface SearchEmptyStateProps {
+  query: string
+  filters: SearchFilters
+  tags: string[]
+  posts: BlogIndexEntry[]
+
+  messages: {
+    title: string
+    description: string
+    clear_filters: string
+    popular_tags: string
+    latest_posts: string
+  }
+}
+
+export function SearchEmptyState({
+  query,
+  tags,
+  posts,
+  filters,
+  messages,
+}: SearchEmptyStateProps) {
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-2">
+        <h2 className="text-xl font-medium">{messages.title}</h2>
+        <p className="text-muted-foreground">{messages.description}</p>
+
+        {hasFilters && (
+          <Link
+            className="text-sm underline underline-offset-4"
+            href={getSearchPageHref(query)}
+          >
+            {messages.clear_filters}
+          </Link>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">{messages.popular_tags}</h3>
+
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <Link
+                className={cn(badgeVariants({ variant: 'secondary' }))}
+                href={getSearchPageHref(tag)}
+                key={tag}
+              >
+                {tag}
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {posts.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">{messages.latest_posts}</h3>
+
+          <ul className="space-y-1">
+            {posts.map(post => (
+              <li key={post.slug}>
+                <Link
+                  className="hover:opacity-65 transition-all"
+                  href={`/blog/${post.slug}`}
+                >
+                  {post.title}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+import type {
+  SearchFacets as SearchFacetsType,
+  SearchFacetValue,
+  SearchFilters,
+} from '@/lib/core/types/search'
+
+import { getSearchPageHref } from '@/lib/core/utils/search'
+import { badgeVariants } from '../ui/badge'
+import { Link } from '@/navigation'
+import { cn } from '@/lib/utils'
+
+interface SearchFacetsProps {
+  query: string
+  filters: SearchFilters
+  facets: SearchFacetsType
+
+  messages: {
+    type: string
+    tags: string
+    year: string
+    clear_filters: string
+
+    types: {
+      blog: string
+      docs: string
+    }
+  }
+}
+
+function SearchFacet({
+  name,
+  title,
+  query,
+  values,
+  filters,
+  getLabel = value => value,
+}: {
+  name: keyof SearchFilters
+  title: string
+  query: string
+  values: SearchFacetValue[]
+  filters: SearchFilters
+  getLabel?: (value: string) => string
+}) {
+  if (values.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-sm font-medium">{title}</h2>
+
+      <div className="flex flex-wrap gap-2">
+        {values.map(({ value, count }) => {
+          const isActive = filters[name] === value
+
+          // Clicking the active value removes the filter instead
+          const href = getSearchPageHref(query, {
+            ...filters,
+            [name]: isActive ? undefined : value,
+          })
+
+          return (
+            <Link
+              aria-current={isActive ? 'true' : undefined}
+              className={cn(
+                badgeVariants({ variant: isActive ? 'default' : 'secondary' }),
+                'gap-1'
+              )}
+              href={href}
+              key={value}
+            >
+              {getLabel(value)}
+              <span className="opacity-65">{count}</span>
+            </Link>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
+export function SearchFacets({
+  query,
+  facets,
+  filters,
+  messages,
+}: SearchFacetsProps) {
+  const hasFilters = Object.values(filters).some(Boolean)
+
+  return (
+    <aside className="space-y-6">
+      <SearchFacet
+        filters={filters}
+        getLabel={value => messages.types[value as keyof typeof messages.types]}
+        name="type"
+        query={query}
+        title={messages.type}
+        values={facets.type}
+      />
+
+      <SearchFacet
+        filters={filters}
+        name="tag"
+        query={query}
+        title={messages.tags}
+        values={facets.tag}
+      />
+
+      <SearchFacet
+        filters={filters}
+        name="year"
+        query={query}
+        title={messages.year}
+        values={facets.year}
+      />
+
+      {hasFilters && (
+        <Link
+          className="text-muted-foreground hover:text-foreground text-sm underline-offset-4 hover:underline"
+          href={getSearchPageHref(query)}
+        >
+          {messages.clear_filters}
+        </Link>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,81 @@
+import type { SearchResult } from '@/lib/core/types/search'
+import { getObjectValueByLocale } from '@/lib/core/utils/locale'
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { SearchSnippet } from '@/components/search-snippet'
+import { dateLocales } from '@/config/i18n'
+import { formatDate } from '@/lib/utils'
+import { Link } from '@/navigation'
+
+import {
+  getSearchResultHref,
+  highlightSearchText,
+} from '@/lib/core/utils/search'
+
+interface SearchResultsProps {
+  terms: string[]
+  locale: LocaleOptions
+  results: SearchResult[]
+
+  messages: {
+    types: {
+      blog: string
+      docs: string
+    }
+  }
+}
+
+export function SearchResults({
+  terms,
+  locale,
+  results,
+  messages,
+}: SearchResultsProps) {
+  return (
+    <ol className="divide-y">
+      {results.map(({ section, snippet }) => {
+        const href = getSearchResultHref(section)
+
+        return (
+          <li className="space-y-1 py-4 first:pt-0" key={href}>
+            <div className="text-muted-foreground flex items-center gap-2 text-xs">
+              <span>{messages.types[section.type]}</span>
+
+              {section.date && (
+                <time dateTime={section.date}>
+                  {formatDate(
+                    section.date,
+                    getObjectValueByLocale(dateLocales, locale)
+                  )}
+                </time>
+              )}
+            </div>
+
+            <Link className="hover:opacity-65 transition-all" href={href}>
+              <h2 className="text-lg font-medium">
+                <SearchSnippet
+                  segments={highlightSearchText(section.title, terms)}
+                />
+
+                {section.heading && (
+                  <span className="text-muted-foreground">
+                    {' '}
+                    ›{' '}
+                    <SearchSnippet
+                      segments={highlightSearchText(section.heading, terms)}
+                    />
+                  </span>
+                )}
+              </h2>
+            </Link>
+
+            {snippet.length > 0 && (
+              <p className="text-muted-foreground text-sm">
+                <SearchSnippet segments={snippet} />
+              </p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
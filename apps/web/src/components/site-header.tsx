@@ -45,6 +45,8 @@ export async function SiteHeader() {
                 docs: t('words.docs'),
                 blog: t('words.blog'),
                 search: t('search.search'),
+                results: t('search.results'),
+                seeAllResults: t('search.see_all_results'),
                 noResultsFound: t('search.no_results_found'),
                 typeCommandOrSearch: t('search.type_command_or_search'),
                 searchDocumentation: t('search.search_documentation'),
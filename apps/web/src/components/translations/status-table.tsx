@@ -0,0 +1,139 @@
+'use client'
+
+import type { ColumnDef } from '@tanstack/react-table'
+import { useMemo, useState } from 'react'
+
+import type {
+  TranslationGroup,
+  TranslationState,
+} from '@/lib/core/types/translations'
+
+import type { LocaleOptions } from '@/lib/core/types/i18n'
+import { DataTable } from '@/lib/tables'
+import { Link } from '@/navigation'
+import { Badge } from '../ui/badge'
+import { Input } from '../ui/input'
+
+interface TranslationStatusTableProps {
+  groups: TranslationGroup[]
+  locales: LocaleOptions[]
+
+  messages: {
+    type: string
+    content: string
+    create: string
+    filter_placeholder: string
+    updated_unknown: string
+    states: Record<TranslationState, string>
+  }
+}
+
+const stateVariants = {
+  source: 'outline',
+  up_to_date: 'secondary',
+  stale: 'default',
+  missing: 'destructive',
+} as const
+
+export function TranslationStatusTable({
+  groups,
+  locales,
+  messages,
+}: TranslationStatusTableProps) {
+  const [filter, setFilter] = useState('')
+
+  const columns = useMemo(
+    (): ColumnDef<TranslationGroup>[] => [
+      {
+        accessorKey: 'type',
+        header: messages.type,
+      },
+
+      {
+        id: 'content',
+        header: messages.content,
+        accessorFn: group => `${group.title} ${group.translationKey}`,
+
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="font-medium">{row.original.title}</span>
+
+            <code className="text-xs text-muted-foreground">
+              {row.original.translationKey}
+            </code>
+          </div>
+        ),
+      },
+
+      ...locales.map(
+        (locale): ColumnDef<TranslationGroup> => ({
+          id: locale,
+          header: locale,
+          enableGlobalFilter: false,
+          accessorFn: group => group.translations[locale]?.state ?? 'missing',
+
+          cell: ({ row }) => {
+            const translation = row.original.translations[locale]
+
+            if (!translation) {
+              return null
+            }
+
+            // Missing translations have no file to date
+            const updatedAt =
+              translation.state === 'missing'
+                ? undefined
+                : (translation.updatedAt ?? messages.updated_unknown)
+
+            const badge = (
+              <Badge
+                title={updatedAt}
+                variant={stateVariants[translation.state]}
+              >
+                {messages.states[translation.state]}
+              </Badge>
+            )
+
+            if (translation.state === 'missing') {
+              return (
+                <a
+                  className="flex flex-col items-start gap-1"
+                  href={translation.href}
+                  rel="noreferrer"
+                  target="_blank"
+                >
+                  {badge}
+
+                  <span className="text-xs underline underline-offset-4">
+                    {messages.create}
+                  </span>
+                </a>
+              )
+            }
+
+            return (
+              <Link href={translation.href} locale={locale}>
+                {badge}
+              </Link>
+            )
+          },
+        })
+      ),
+    ],
+    [locales, messages]
+  )
+
+  return (
+    <div className="space-y-4">
+      <Input
+        className="max-w-sm"
+        onChange={event => setFilter(event.target.value)}
+        placeholder={messages.filter_placeholder}
+        type="search"
+        value={filter}
+      />
+
+      <DataTable columns={columns} data={groups} globalFilter={filter} />
+    </div>
+  )
+}
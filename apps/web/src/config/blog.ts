@@ -7,6 +7,7 @@ export const blogConfig: BlogConfig = {
 
       title: {
         vi: 'Blog',
+        en: 'Blog',
       },
     },
   ],
@@ -25,6 +26,7 @@ export const blogConfig: BlogConfig = {
 
       bio: {
         vi: 'Lập trình viên | Người yêu công nghệ | Blogger',
+        en: 'Developer | Tech enthusiast | Blogger',
       },
 
       social: {
@@ -38,11 +40,17 @@ export const blogConfig: BlogConfig = {
 
   rss: [
     {
-      type: 'xml',
+      type: 'rss',
       file: 'blog.xml',
       contentType: 'application/xml',
     },
 
+    {
+      type: 'atom',
+      file: 'blog.atom',
+      contentType: 'application/atom+xml',
+    },
+
     {
       type: 'json',
       file: 'blog.json',
@@ -4,6 +4,7 @@ export const localCodeThemes = ['Aura Theme'] as const
 
 export const codeThemeConfig: CodeThemeConfig = {
   theme: localCodeThemes[0],
+  lightTheme: 'github-light',
   localThemes: localCodeThemes,
 
   languages: ['txt', 'json', 'bash', 'diff', 'markdown', 'typescript'],
@@ -16,6 +16,7 @@ export const docsConfig: DocsConfig = {
 
       title: {
         vi: 'Tài liệu',
+        en: 'Docs',
       },
     },
   ],
@@ -24,6 +25,7 @@ export const docsConfig: DocsConfig = {
     {
       title: {
         vi: 'Bắt đầu',
+        en: 'Getting Started',
       },
 
       items: [
@@ -32,6 +34,7 @@ export const docsConfig: DocsConfig = {
 
           title: {
             vi: 'Giới thiệu',
+            en: 'Introduction',
           },
 
           items: [],
@@ -42,6 +45,7 @@ export const docsConfig: DocsConfig = {
 
           title: {
             vi: 'Thêm tài liệu mới',
+            en: 'Adding New Docs',
           },
 
           items: [],
@@ -52,6 +56,7 @@ export const docsConfig: DocsConfig = {
 
           title: {
             vi: 'Tùy chỉnh',
+            en: 'Customizing',
           },
 
           items: [],
@@ -60,6 +65,7 @@ export const docsConfig: DocsConfig = {
         {
           title: {
             vi: 'MDX',
+            en: 'MDX',
           },
 
           items: [
@@ -68,6 +74,7 @@ export const docsConfig: DocsConfig = {
 
               title: {
                 vi: 'Frontmatter',
+                en: 'Frontmatter',
               },
 
               items: [],
@@ -78,6 +85,7 @@ export const docsConfig: DocsConfig = {
 
               title: {
                 vi: 'Code',
+                en: 'Code',
               },
 
               items: [],
@@ -88,6 +96,7 @@ export const docsConfig: DocsConfig = {
 
               title: {
                 vi: 'Components',
+                en: 'Components',
               },
 
               items: [],
@@ -100,6 +109,7 @@ export const docsConfig: DocsConfig = {
 
           title: {
             vi: 'Lịch sử thay đổi',
+            en: 'Changelog',
           },
 
           items: [],
@@ -1,17 +1,22 @@
-import type { Locales, LocalizedRecord } from '@/lib/core/types/i18n'
+import { i18nConfig } from '@blog/i18n'
 
-export const defaultLocale = 'vi' as const
+import type { Locales } from '@/lib/core/types/i18n'
 
-export const locale = {
-  vi: defaultLocale,
-} as const
+// Locales, labels and date formats are defined once in `@blog/i18n`
+export { labels, dateLocales } from '@blog/i18n'
 
-export const labels = {
-  [defaultLocale]: 'Tiếng Việt',
-} as const
+export const defaultLocale = i18nConfig.defaultLocale
 
-export const dateLocales: LocalizedRecord = {
-  vi: 'vi-VN',
-} as const
+export const locales = [...i18nConfig.locales] as Locales
 
-export const locales = Object.values(locale) as Locales
+// Cookies shared by the proxy, the locale switcher and the language banner
+export const localeCookies = {
+  // Language the reader picked, it wins over the browser languages
+  choice: 'NEXT_LOCALE',
+
+  // Best match of `Accept-Language`, detected by the proxy
+  detected: 'NEXT_DETECTED_LOCALE',
+
+  // Language the banner was dismissed for
+  dismissed: 'NEXT_DISMISSED_LOCALE',
+}
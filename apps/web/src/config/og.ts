@@ -0,0 +1,18 @@
+export const ogConfig = {
+  // Layouts of the OG images, picked with `og_template` in the frontmatter
+  templates: ['classic', 'minimal', 'split'],
+  defaultTemplate: 'classic',
+
+  // Paths in `public`, a gradient is drawn when the background is missing
+  background: '/og-background.jpg',
+  logo: '/logo.svg',
+
+  // Files in `public/fonts`. Geist has no glyphs for most Vietnamese letters,
+  // like `ư` or `ệ`, so the OG images use a family covering all of them
+  fonts: [
+    { file: 'BeVietnamPro-Regular.ttf', weight: 400 },
+    { file: 'BeVietnamPro-Bold.ttf', weight: 700 },
+  ],
+} as const
+
+export type OgTemplate = (typeof ogConfig.templates)[number]
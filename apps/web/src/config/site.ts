@@ -1,4 +1,5 @@
-import vi from '@/i18n/locales/vi.json'
+import vi from '@blog/i18n/messages/vi.json'
+import en from '@blog/i18n/messages/en.json'
 import { absoluteUrl } from '@/lib/utils'
 
 export const siteConfig = {
@@ -6,12 +7,14 @@ export const siteConfig = {
 
   description: {
     vi: vi.site.description,
+    en: en.site.description,
   },
 
   url: process.env.NEXT_PUBLIC_APP_URL,
 
   og: {
-    image: absoluteUrl('/og.jpg'),
+    // Rendered by `app/og.png/route.ts`
+    image: absoluteUrl('/og.png'),
 
     size: {
       width: 1200,
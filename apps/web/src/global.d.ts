@@ -0,0 +1,10 @@
+import type { Locale, Messages } from '@blog/i18n'
+
+// Types the keys of `t()` and the locales of next-intl after the catalog of
+// the default locale
+declare module 'next-intl' {
+  interface AppConfig {
+    Locale: Locale
+    Messages: Messages
+  }
+}
@@ -1,27 +1,24 @@
 import type { AbstractIntlMessages } from 'next-intl'
 import { getRequestConfig } from 'next-intl/server'
+import { getDictionary } from '@blog/i18n/loader'
+import { isLocale } from '@blog/i18n'
 import deepmerge from 'deepmerge'
 
-import type { LocaleOptions } from '@/lib/core/types/i18n'
-import { locales } from '@/config/i18n'
 import { routing } from '@/navigation'
 
 export default getRequestConfig(async ({ requestLocale }) => {
-  let locale = await requestLocale
-
-  const fallbackMessages: AbstractIntlMessages = await import(
-    `@/i18n/locales/${routing.defaultLocale}.json`
-  )
-
-  let messagesFromCurrentLocale: AbstractIntlMessages = {}
-
-  if (!locale || !locales.includes(locale as LocaleOptions)) {
-    locale = routing.defaultLocale
-  }
-
-  try {
-    messagesFromCurrentLocale = await import(`@/i18n/locales/${locale}.json`)
-  } catch {}
+  const requestedLocale = await requestLocale
+
+  const locale =
+    requestedLocale && isLocale(requestedLocale)
+      ? requestedLocale
+      : routing.defaultLocale
+
+  const [fallbackMessages, messagesFromCurrentLocale]: AbstractIntlMessages[] =
+    await Promise.all([
+      getDictionary(routing.defaultLocale),
+      getDictionary(locale),
+    ])
 
   const messages = deepmerge(fallbackMessages, messagesFromCurrentLocale)
 
@@ -1,13 +0,0 @@
-import { createNavigation } from 'next-intl/navigation'
-import { defineRouting } from 'next-intl/routing'
-
-import { defaultLocale, locales } from '@/config/i18n'
-
-export const routing = defineRouting({
-  locales,
-  defaultLocale,
-  localePrefix: 'as-needed',
-})
-
-export const { Link, redirect, usePathname, useRouter } =
-  createNavigation(routing)
@@ -0,0 +1,170 @@
+import { useRouter as useNextRouter, useParams } from 'next/navigation'
+import { createNavigation } from 'next-intl/navigation'
+import { type ComponentProps, useMemo } from 'react'
+import { useLocale } from 'next-intl'
+
+import type { LocaleOptions } from './types/i18n'
+import { type AppPathname, routing } from './routing'
+import { setCookie } from './utils/cookies'
+import { localeCookies } from '@/config/i18n'
+import { absoluteUrl } from '@/lib/utils'
+
+export { routing }
+
+const navigation = createNavigation(routing)
+
+type Href = Parameters<typeof navigation.getPathname>[0]['href']
+type Params = Record<string, string | string[] | undefined>
+
+interface NavigateOptions {
+  locale?: LocaleOptions
+  scroll?: boolean
+}
+
+// Catch-all routes last and the deepest of them first, so they do not shadow
+// the routes nested in them
+const pathnames = (Object.keys(routing.pathnames) as AppPathname[]).sort(
+  (a, b) =>
+    Number(a.includes('...')) - Number(b.includes('...')) ||
+    b.split('/').length - a.split('/').length
+)
+
+function getPathnamePattern(pathname: AppPathname) {
+  const pattern = pathname
+    .replace(/\/\[\[\.\.\.(\w+)\]\]/g, '(?:/(?<$1>.+))?')
+    .replace(/\/\[\.\.\.(\w+)\]/g, '/(?<$1>.+)')
+    .replace(/\/\[(\w+)\]/g, '/(?<$1>[^/]+)')
+
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Matches an internal path, e.g. `/blog/my-post?page=2`, with its route in
+ * `routing.pathnames`, so it can be localized by next-intl. Paths of other
+ * routes and external URLs are returned as they are
+ */
+export function getHref(path: string): Href & { hash?: string } {
+  if (!path.startsWith('/')) {
+    return path as Href
+  }
+
+  const url = new URL(path, 'http://localhost')
+  const internalPath = url.pathname.replace(/(.)\/+$/, '$1')
+
+  for (const pathname of pathnames) {
+    const match = internalPath.match(getPathnamePattern(pathname))
+
+    if (!match) {
+      continue
+    }
+
+    const params = Object.fromEntries(
+      Object.entries(match.groups ?? {})
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [
+          key,
+          pathname.includes(`...${key}]`) ? value.split('/') : value,
+        ])
+    )
+
+    return {
+      pathname,
+      params,
+      ...(url.search && { query: Object.fromEntries(url.searchParams) }),
+      ...(url.hash && { hash: url.hash }),
+    } as Href & { hash?: string }
+  }
+
+  return path as Href
+}
+
+/** Public path of an internal path in a locale, e.g. `/tai-lieu/intro` */
+export function getLocalizedPath(path: string, locale: LocaleOptions) {
+  const href = getHref(path)
+  const hash = typeof href === 'object' ? href.hash : ''
+
+  return `${navigation.getPathname({ href, locale })}${hash ?? ''}`
+}
+
+/** Absolute URL of an internal path in a locale, for metadata and feeds */
+export function getLocalizedUrl(path: string, locale: LocaleOptions) {
+  return absoluteUrl(getLocalizedPath(path, locale))
+}
+
+// Fills a route of `routing.pathnames` with the params of the page
+function compilePathname(pathname: string, params: Params) {
+  const path = pathname.replace(
+    /\/\[{1,2}(?:\.\.\.)?(\w+)\]{1,2}/g,
+    (_, key: string) => {
+      const value = params[key]
+
+      return value ? `/${[value].flat().join('/')}` : ''
+    }
+  )
+
+  return path || '/'
+}
+
+type LinkProps = Omit<ComponentProps<typeof navigation.Link>, 'href'> & {
+  href: string
+}
+
+/** Link to an internal path, rendered with the segments of the locale */
+export function Link({ href, ...props }: LinkProps) {
+  return (
+    <navigation.Link
+      {...props}
+      href={getHref(href) as ComponentProps<typeof navigation.Link>['href']}
+    />
+  )
+}
+
+export function redirect({
+  href,
+  locale,
+}: {
+  href: string
+  locale: LocaleOptions
+}): never {
+  return navigation.redirect({ href: getHref(href), locale })
+}
+
+/**
+ * The internal path of the current page, e.g. `/docs/intro` while visiting
+ * `/tai-lieu/intro`, so it compares with the hrefs of the config and content
+ */
+export function usePathname() {
+  const pathname = navigation.usePathname()
+  const params = useParams<Params>()
+
+  return useMemo(() => compilePathname(pathname, params), [pathname, params])
+}
+
+/**
+ * Router taking internal paths. Switching locales is an explicit choice of
+ * the reader, remembered in a cookie for the proxy and the language banner
+ */
+export function useRouter() {
+  const router = useNextRouter()
+  const locale = useLocale()
+
+  return useMemo(() => {
+    function navigate(method: 'push' | 'replace') {
+      return (path: string, options: NavigateOptions = {}) => {
+        const { locale: nextLocale = locale, ...rest } = options
+
+        if (nextLocale !== locale) {
+          setCookie(localeCookies.choice, nextLocale)
+        }
+
+        return router[method](getLocalizedPath(path, nextLocale), rest)
+      }
+    }
+
+    return {
+      ...router,
+      push: navigate('push'),
+      replace: navigate('replace'),
+    }
+  }, [locale, router])
+}
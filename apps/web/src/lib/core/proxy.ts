@@ -1,15 +1,128 @@
-import { type NextRequest, NextResponse } from 'next/server'
+import { type NextRequest, NextResponse, userAgent } from 'next/server'
 import nextIntlMiddleware from 'next-intl/middleware'
 
-import { routing } from './navigation'
+import {
+  cacheControl,
+  getNotModifiedResponse,
+  isNotModified,
+} from './utils/http-cache'
+
+import { getFeedValidators } from './utils/feed-validators'
+import { parseFeedPath } from './utils/feeds'
+import { getAcceptLanguageLocale } from './utils/locale'
+import { defaultLocale, localeCookies } from '@/config/i18n'
+import { routing } from './routing'
 
 const intlMiddleware = (request: NextRequest) =>
   Promise.resolve(nextIntlMiddleware(routing)(request))
 
-export default async function proxy(request: NextRequest) {
-  request.headers.set('x-pathname', request.nextUrl.pathname)
+function getUnprefixedPathname(pathname: string) {
+  const [, segment, ...segments] = pathname.split('/')
+
+  return routing.locales.some(locale => locale === segment)
+    ? `/${segments.join('/')}`
+    : pathname
+}
+
+/**
+ * next-intl redirects the segments of another locale, e.g. `/docs` before
+ * it became `/tai-lieu`, with a temporary redirect. Those URLs moved for
+ * good, only the redirects that pick a locale prefix depend on the visitor
+ */
+function isMovedPathname(request: NextRequest, response: NextResponse) {
+  const location = response.headers.get('location')
+
+  if (!location) {
+    return false
+  }
+
+  const { pathname } = new URL(location, request.url)
+
+  return (
+    getUnprefixedPathname(pathname) !==
+    getUnprefixedPathname(request.nextUrl.pathname)
+  )
+}
+
+/**
+ * Feeds are static files, but readers poll them with the validators of the
+ * copy they have, so unchanged feeds are answered here with a `304`
+ */
+function getFeedResponse(request: NextRequest) {
+  const feed = parseFeedPath(request.nextUrl.pathname)
+
+  if (!feed) {
+    return null
+  }
+
+  const validators = getFeedValidators(feed)
+
+  if (validators && isNotModified(request.headers, validators)) {
+    return getNotModifiedResponse(validators, cacheControl.feed)
+  }
+
+  return NextResponse.next()
+}
 
+async function getIntlResponse(request: NextRequest) {
   const intlResponse = await intlMiddleware(request)
 
+  if (intlResponse && isMovedPathname(request, intlResponse)) {
+    return new NextResponse(null, {
+      status: 308,
+      headers: intlResponse.headers,
+    })
+  }
+
   return intlResponse ? intlResponse : NextResponse.next()
 }
+
+/**
+ * Readers are never redirected to another language of the page they asked
+ * for, the language banner suggests it instead. Only the home page sends
+ * them to the language they picked before. Crawlers always get the URL they
+ * requested and no cookies
+ */
+export default async function proxy(request: NextRequest) {
+  const feedResponse = getFeedResponse(request)
+
+  if (feedResponse) {
+    return feedResponse
+  }
+
+  request.headers.set('x-pathname', request.nextUrl.pathname)
+
+  if (userAgent(request).isBot) {
+    return getIntlResponse(request)
+  }
+
+  const choice = routing.locales.find(
+    locale => locale === request.cookies.get(localeCookies.choice)?.value
+  )
+
+  if (
+    choice &&
+    choice !== defaultLocale &&
+    request.nextUrl.pathname === '/'
+  ) {
+    return NextResponse.redirect(new URL(`/${choice}`, request.url))
+  }
+
+  const response = await getIntlResponse(request)
+
+  const detected = getAcceptLanguageLocale(
+    request.headers.get('accept-language')
+  )
+
+  if (
+    detected &&
+    detected !== request.cookies.get(localeCookies.detected)?.value
+  ) {
+    response.cookies.set(localeCookies.detected, detected, {
+      path: '/',
+      sameSite: 'lax',
+    })
+  }
+
+  return response
+}
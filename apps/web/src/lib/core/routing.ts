@@ -0,0 +1,65 @@
+import { defineRouting } from 'next-intl/routing'
+
+import { defaultLocale, locales } from '@/config/i18n'
+
+export const routing = defineRouting({
+  locales,
+  defaultLocale,
+  localePrefix: 'as-needed',
+
+  // The proxy only suggests the language of the reader, the URL always
+  // decides the locale and the choice is stored by `useRouter`
+  localeDetection: false,
+  localeCookie: false,
+
+  // Keys are the routes of `app/[locale]`, values the segments each locale
+  // serves them under. New localized segments also go in the matcher of
+  // `proxy.ts`
+  pathnames: {
+    '/': '/',
+    '/search': '/search',
+    '/translations': '/translations',
+
+    '/docs/[[...slug]]': {
+      vi: '/tai-lieu/[[...slug]]',
+      en: '/docs/[[...slug]]',
+    },
+
+    '/docs/og/[[...slug]]': {
+      vi: '/tai-lieu/og/[[...slug]]',
+      en: '/docs/og/[[...slug]]',
+    },
+
+    '/blog/[[...slug]]': {
+      vi: '/bai-viet/[[...slug]]',
+      en: '/blog/[[...slug]]',
+    },
+
+    '/blog/og/[slug]': {
+      vi: '/bai-viet/og/[slug]',
+      en: '/blog/og/[slug]',
+    },
+
+    '/blog/series/[series]': {
+      vi: '/bai-viet/chuoi/[series]',
+      en: '/blog/series/[series]',
+    },
+
+    '/blog/series/[series]/og': {
+      vi: '/bai-viet/chuoi/[series]/og',
+      en: '/blog/series/[series]/og',
+    },
+
+    '/blog/tags/[tag]': {
+      vi: '/bai-viet/the/[tag]',
+      en: '/blog/tags/[tag]',
+    },
+
+    '/blog/tags/[tag]/og': {
+      vi: '/bai-viet/the/[tag]/og',
+      en: '/blog/tags/[tag]/og',
+    },
+  },
+})
+
+export type AppPathname = keyof typeof routing.pathnames
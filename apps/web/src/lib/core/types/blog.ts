@@ -19,10 +19,13 @@ export interface PostAuthor {
 
 export interface RSSFeed {
   file: string
-  type: string
+  type: 'rss' | 'atom' | 'json'
   contentType: string
 }
 
+/** Feeds of the posts with a tag slug or written by an author id */
+export type BlogFeedFilter = { tag: string } | { author: string }
+
 export interface BlogConfig {
   mainNav: NavItem[]
   authors: PostAuthor[]
@@ -36,3 +39,26 @@ export interface BlogPageProps {
     locale: LocaleOptions
   }
 }
+
+export interface BlogSeriesPart {
+  /** Path of the post without its locale folder */
+  slug: string
+  title: string
+  date: string
+  excerpt: string
+  readTime: number
+}
+
+export interface BlogSeries {
+  slug: string
+  title: string
+  locale: LocaleOptions
+  parts: BlogSeriesPart[]
+}
+
+export interface BlogTag {
+  /** ASCII-safe URL segment of the tag, e.g. `huong-dan` */
+  slug: string
+  name: string
+  count: number
+}
@@ -15,6 +15,7 @@ export type CodeThemeLanguage = BundledCodeLanguageOptions | (string & {})
 
 export interface CodeThemeConfig {
   theme: CodeTheme
+  lightTheme: CodeTheme
   languages: CodeThemeLanguage[]
   localThemes: LocalCodeThemes
 }
@@ -0,0 +1,37 @@
+import type { BlogFeedFilter } from './blog'
+import type { LocaleOptions } from './i18n'
+
+interface ContentIndexEntry {
+  /** Path of the document without its locale folder, e.g. `mdx/code` */
+  slug: string
+  title: string
+  locale: LocaleOptions
+  /** Shared by every localized version of the same document */
+  translationKey: string
+}
+
+export interface BlogIndexEntry extends ContentIndexEntry {
+  date: string
+  excerpt: string
+  tags: string[]
+  readTime: number
+}
+
+export interface DocIndexEntry extends ContentIndexEntry {
+  excerpt?: string
+}
+
+export interface RelatedPostsIndexEntry
+  extends Pick<ContentIndexEntry, 'slug' | 'locale'> {
+  /** Slugs of the related posts in the same locale, best match first */
+  related: string[]
+}
+
+export interface FeedIndexEntry {
+  locale: LocaleOptions
+  filter?: BlogFeedFilter
+  /** Hash of every post of the feed, changes whenever one of them does */
+  hash: string
+  /** Date of the newest post of the feed, as an ISO string */
+  lastModified: string
+}
@@ -1,10 +1,10 @@
-import type { locale } from '@/config/i18n'
+import type { Locale, Messages } from '@blog/i18n'
 
-export type Locales = (keyof typeof locale)[]
-export type LocaleOptions = Locales[number]
+export type LocaleOptions = Locale
+export type Locales = LocaleOptions[]
 
 export type LocalizedRecord = Partial<{
   [key in LocaleOptions]: string
 }>
 
-export type IntlMessages = typeof import('@/i18n/locales/vi.json')
+export type IntlMessages = Messages
@@ -0,0 +1 @@
+export type PublicationStatus = 'published' | 'draft' | 'scheduled'
@@ -0,0 +1,45 @@
+import type { LocaleOptions } from './i18n'
+
+export type SearchContentType = 'blog' | 'docs'
+
+export interface SearchSection {
+  type: SearchContentType
+  locale: LocaleOptions
+  /** Path of the document without its locale folder, e.g. `mdx/code` */
+  slug: string
+  title: string
+  tags: string[]
+  /** Publication date of blog posts, used by the year facet */
+  date?: string
+  /** Heading the section starts with, empty for the document intro */
+  heading?: string
+  /** Id generated for the heading, used as the `#anchor` of the result */
+  anchor?: string
+  content: string
+}
+
+export interface SearchSnippetSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchResult {
+  section: SearchSection
+  score: number
+  snippet: SearchSnippetSegment[]
+}
+
+export interface SearchFilters {
+  type?: SearchContentType
+  tag?: string
+  year?: string
+}
+
+export interface SearchFacetValue {
+  value: string
+  count: number
+}
+
+export type SearchFacets = {
+  [key in keyof SearchFilters]-?: SearchFacetValue[]
+}
@@ -0,0 +1,20 @@
+import type { LocaleOptions } from './i18n'
+import type { SearchContentType } from './search'
+
+export type TranslationState = 'source' | 'up_to_date' | 'stale' | 'missing'
+
+export interface TranslationStatus {
+  state: TranslationState
+  /** Page of the translation, or GitHub link creating the missing file */
+  href: string
+  updatedAt?: string
+}
+
+export interface TranslationGroup {
+  type: SearchContentType
+  translationKey: string
+  /** Title in the source locale */
+  title: string
+  sourceLocale: LocaleOptions
+  translations: Partial<Record<LocaleOptions, TranslationStatus>>
+}
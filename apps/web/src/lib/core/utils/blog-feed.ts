@@ -0,0 +1,120 @@
+import { Feed, type Item } from 'feed'
+import type { Blog } from 'content-collections'
+
+import type { BlogFeedFilter, RSSFeed } from '../types/blog'
+import type { LocaleOptions } from '../types/i18n'
+
+import { getFeedPath } from './feeds'
+import { getBlogTagHref, getBlogTagSlug } from './tags'
+import { splitLocalizedSlug } from './write-content-index'
+import { getObjectValueByLocale } from './locale'
+import { getFeedContent } from './feed-content'
+import { getLocalizedUrl } from '@/lib/core/navigation'
+import { absoluteUrl } from '@/lib/utils'
+import { blogConfig } from '@/config/blog'
+import { siteConfig } from '@/config/site'
+
+function isPostInFeed(post: Blog, filter?: BlogFeedFilter) {
+  if (!filter) {
+    return true
+  }
+
+  if ('tag' in filter) {
+    return post.tags.some(tag => getBlogTagSlug(tag) === filter.tag)
+  }
+
+  return post.author?.id === filter.author
+}
+
+async function getFeedItem(post: Blog, locale: LocaleOptions): Promise<Item> {
+  const { slug } = splitLocalizedSlug(post.slugAsParams)
+  const link = getLocalizedUrl(`/blog/${slug}`, locale)
+
+  return {
+    id: link,
+    link,
+    title: post.title,
+    description: post.excerpt,
+    content: await getFeedContent({ raw: post.content, link, locale }),
+    date: new Date(post.date || Date.now()),
+
+    category: post.tags.map(tag => ({
+      name: tag,
+      domain: getLocalizedUrl(getBlogTagHref(tag), locale),
+    })),
+
+    author: [
+      {
+        name: post.author?.name,
+        link: post.author?.site,
+        email: post.author?.email || ' ',
+      },
+    ],
+  }
+}
+
+/**
+ * Renders the feed of the posts of a locale in the format of `rss`, with the
+ * full content of each post. `link` is the page listing the same posts
+ */
+export async function getBlogFeed({
+  rss,
+  posts,
+  title,
+  link,
+  locale,
+  filter,
+}: {
+  rss: RSSFeed
+  posts: Blog[]
+  title: string
+  link: string
+  locale: LocaleOptions
+  filter?: BlogFeedFilter
+}) {
+  const feedPosts = posts
+    .filter(
+      post =>
+        splitLocalizedSlug(post.slugAsParams).locale === locale &&
+        isPostInFeed(post, filter)
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+  const feed = new Feed({
+    id: absoluteUrl(getFeedPath({ rss, locale, filter })),
+    generator: siteConfig.name,
+    copyright: siteConfig.name,
+    image: siteConfig.og.image,
+    language: locale,
+    title,
+
+    // The newest post dates the feed, so it only changes with the posts
+    updated: feedPosts[0] ? new Date(feedPosts[0].date) : undefined,
+
+    link,
+    favicon: absoluteUrl('/favicon.ico'),
+    description: getObjectValueByLocale(siteConfig.description, locale),
+
+    feedLinks: Object.fromEntries(
+      blogConfig.rss.map(rss => [
+        rss.type,
+        absoluteUrl(getFeedPath({ rss, locale, filter })),
+      ])
+    ),
+  })
+
+  for (const post of feedPosts) {
+    feed.addItem(await getFeedItem(post, locale))
+  }
+
+  switch (rss.type) {
+    case 'rss':
+      return feed.rss2()
+
+    case 'atom':
+      return feed.atom1()
+
+    case 'json':
+      return feed.json1()
+  }
+}
@@ -1,7 +1,10 @@
 import { allBlogs, type Blog } from 'content-collections'
+import { draftMode } from 'next/headers'
 import type { BlogPageProps } from '../types/blog'
 import { defaultLocale } from '@/config/i18n'
 
+import { getVisibleContent } from './publication'
+
 export function makeLocalizedSlug({ locale, slug }: BlogPageProps['params']) {
   const _slug = slug?.join('/')
   const _locale = locale || defaultLocale
@@ -14,8 +17,13 @@ export function makeLocalizedSlug({ locale, slug }: BlogPageProps['params']) {
 export async function getBlogFromParams({
   params,
 }: BlogPageProps): Promise<(Blog & { notAvailable: boolean }) | null> {
+  const { isEnabled: isPreview } = await draftMode()
+
+  // Preview links resolve drafts and scheduled posts too
+  const blogs = isPreview ? allBlogs : getVisibleContent(allBlogs)
+
   let localizedSlug = makeLocalizedSlug(params)
-  let blog = allBlogs.find(blog => blog.slugAsParams === localizedSlug)
+  let blog = blogs.find(blog => blog.slugAsParams === localizedSlug)
 
   if (!blog) {
     localizedSlug = makeLocalizedSlug({
@@ -23,7 +31,7 @@ export async function getBlogFromParams({
       locale: defaultLocale,
     })
 
-    blog = allBlogs.find(blog => blog.slugAsParams === localizedSlug)
+    blog = blogs.find(blog => blog.slugAsParams === localizedSlug)
 
     return blog ? { ...blog, notAvailable: true } : null
   }
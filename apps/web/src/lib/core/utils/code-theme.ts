@@ -1,6 +1,9 @@
 import { readFileSync } from 'node:fs'
 import { resolve } from 'node:path'
 
+import { createJavaScriptRegexEngine } from 'shiki/engine/javascript'
+import { bundledLanguages, createHighlighter, type Highlighter } from 'shiki'
+
 import type {
   CodeTheme,
   LocalCodeThemes,
@@ -10,37 +13,118 @@ import type {
 import { codeThemeConfig, localCodeThemes } from '../../../config/code-theme'
 import { toKebabCase } from './to-kebab-case'
 
-export function getContentLayerCodeTheme() {
-  const themeName = codeThemeConfig.theme
-
-  if (localCodeThemes.includes(themeName as LocalCodeThemes[number])) {
-    return JSON.parse(
-      readFileSync(
-        resolve(
-          `./src/styles/themes/syntax-highlight/${toKebabCase(themeName)}.json`
-        ),
-        'utf-8'
-      )
+function isLocalCodeTheme(theme: CodeTheme): theme is LocalCodeThemes[number] {
+  return localCodeThemes.includes(theme as LocalCodeThemes[number])
+}
+
+function readLocalCodeTheme(themeName: LocalCodeThemes[number]) {
+  return JSON.parse(
+    readFileSync(
+      resolve(
+        `./src/styles/themes/syntax-highlight/${toKebabCase(themeName)}.json`
+      ),
+      'utf-8'
     )
+  )
+}
+
+function resolveCodeTheme(theme: CodeTheme) {
+  return isLocalCodeTheme(theme) ? readLocalCodeTheme(theme) : theme
+}
+
+export function getContentLayerCodeTheme() {
+  return resolveCodeTheme(codeThemeConfig.theme)
+}
+
+const plainTextLanguage = 'text'
+
+let highlighterPromise: Promise<Highlighter> | undefined
+const highlightedCodeCache = new Map<string, Promise<string>>()
+
+function isBundledLanguage(language: CodeThemeLanguage) {
+  return language in bundledLanguages
+}
+
+// Shiki's default Oniguruma engine loads a WASM binary, which Turbopack fails
+// to bundle, so the highlighter runs on the JavaScript regex engine instead
+function getHighlighter() {
+  highlighterPromise ??= createHighlighter({
+    engine: createJavaScriptRegexEngine(),
+    langs: codeThemeConfig.languages.filter(isBundledLanguage),
+    themes: [codeThemeConfig.theme, codeThemeConfig.lightTheme].map(
+      resolveCodeTheme
+    ),
+  })
+
+  return highlighterPromise
+}
+
+async function loadCodeTheme(highlighter: Highlighter, theme: CodeTheme) {
+  if (!highlighter.getLoadedThemes().includes(theme)) {
+    await highlighter.loadTheme(resolveCodeTheme(theme))
   }
+}
 
-  return codeThemeConfig.theme
+async function loadCodeLanguage(
+  highlighter: Highlighter,
+  language: CodeThemeLanguage
+) {
+  if (highlighter.getLoadedLanguages().includes(language)) {
+    return language
+  }
+
+  if (!isBundledLanguage(language)) {
+    return plainTextLanguage
+  }
+
+  await highlighter.loadLanguage(language as keyof typeof bundledLanguages)
+
+  return language
+}
+
+async function renderHighlightedCode(
+  code: string,
+  theme: CodeTheme,
+  language: CodeThemeLanguage
+) {
+  const highlighter = await getHighlighter()
+
+  await Promise.all([
+    loadCodeTheme(highlighter, theme),
+    loadCodeTheme(highlighter, codeThemeConfig.lightTheme),
+  ])
+
+  const lang = await loadCodeLanguage(highlighter, language)
+
+  // Tokens only carry the --shiki-light and --shiki-dark variables, the active
+  // one is picked in globals.css from the class set by the theme toggle
+  const html = highlighter.codeToHtml(code, {
+    lang,
+    structure: 'inline',
+    defaultColor: false,
+    themes: {
+      dark: theme,
+      light: codeThemeConfig.lightTheme,
+    },
+  })
+
+  return `<code class="shiki">${html}</code>`
 }
 
-// Simplified highlighter for migration - uses basic HTML escaping
-// TODO: Re-enable shiki highlighter after fixing Turbopack compatibility
-export async function highlightServerCode(
+export function highlightServerCode(
   code: string,
-  _theme: CodeTheme = codeThemeConfig.theme,
-  _language: CodeThemeLanguage = 'typescript'
+  theme: CodeTheme = codeThemeConfig.theme,
+  language: CodeThemeLanguage = 'typescript'
 ) {
-  // Basic HTML escaping for now
-  const escapedCode = code
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;')
-
-  return `<code>${escapedCode}</code>`
+  const cacheKey = JSON.stringify([theme, language, code])
+  let highlightedCode = highlightedCodeCache.get(cacheKey)
+
+  if (!highlightedCode) {
+    highlightedCode = renderHighlightedCode(code, theme, language)
+    highlightedCodeCache.set(cacheKey, highlightedCode)
+
+    highlightedCode.catch(() => highlightedCodeCache.delete(cacheKey))
+  }
+
+  return highlightedCode
 }
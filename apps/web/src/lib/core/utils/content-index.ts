@@ -0,0 +1,28 @@
+import 'server-only'
+
+import type {
+  BlogIndexEntry,
+  RelatedPostsIndexEntry,
+} from '../types/content-index'
+
+import { blogIndex } from './document-index'
+
+import blogsRelatedIndex from 'content-collections/blogsRelatedIndex.json'
+
+const relatedPostsIndex = blogsRelatedIndex as RelatedPostsIndexEntry[]
+
+export function getRelatedBlogIndex({
+  slug,
+  locale,
+}: Pick<BlogIndexEntry, 'slug' | 'locale'>) {
+  const relatedSlugs =
+    relatedPostsIndex.find(
+      entry => entry.slug === slug && entry.locale === locale
+    )?.related ?? []
+
+  return relatedSlugs.flatMap(relatedSlug =>
+    blogIndex.filter(
+      entry => entry.slug === relatedSlug && entry.locale === locale
+    )
+  )
+}
@@ -0,0 +1,17 @@
+// Client-side helpers, the pages are static so the preferences of the reader
+// are read in the browser
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+export function getCookie(name: string) {
+  const cookie = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${name}=`))
+
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined
+}
+
+export function setCookie(name: string, value: string) {
+  // biome-ignore lint/suspicious/noDocumentCookie: The Cookie Store API is not available in every browser yet
+  document.cookie = `${name}=${encodeURIComponent(value)}; path=/; max-age=${ONE_YEAR}; samesite=lax`
+}
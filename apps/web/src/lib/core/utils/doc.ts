@@ -1,10 +1,13 @@
 import type { NavItem, SidebarNavItem } from '../types/nav'
 import { allDocs, type Doc } from 'content-collections'
+import { draftMode } from 'next/headers'
 import type { DocPageProps } from '../types/docs'
 import { getSlugWithoutLocale } from './locale'
 import { defaultLocale } from '@/config/i18n'
 import { docsConfig } from '@/config/docs'
 
+import { getVisibleContent } from './publication'
+
 export function makeLocalizedSlug({ locale, slug }: DocPageProps['params']) {
   const _slug = slug?.join('/')
   const _locale = locale || defaultLocale
@@ -17,8 +20,13 @@ export function makeLocalizedSlug({ locale, slug }: DocPageProps['params']) {
 export async function getDocFromParams({
   params,
 }: DocPageProps): Promise<(Doc & { notAvailable: boolean }) | null> {
+  const { isEnabled: isPreview } = await draftMode()
+
+  // Preview links resolve drafts and scheduled docs too
+  const docs = isPreview ? allDocs : getVisibleContent(allDocs)
+
   let localizedSlug = makeLocalizedSlug(params)
-  let doc = allDocs.find(doc => doc.slugAsParams === localizedSlug)
+  let doc = docs.find(doc => doc.slugAsParams === localizedSlug)
 
   if (!doc) {
     localizedSlug = makeLocalizedSlug({
@@ -26,7 +34,7 @@ export async function getDocFromParams({
       locale: defaultLocale,
     })
 
-    doc = allDocs.find(doc => doc.slugAsParams === localizedSlug)
+    doc = docs.find(doc => doc.slugAsParams === localizedSlug)
 
     return doc ? { ...doc, notAvailable: true } : null
   }
@@ -0,0 +1,19 @@
+import type { LocaleOptions } from '../types/i18n'
+import type { BlogIndexEntry, DocIndexEntry } from '../types/content-index'
+
+import blogsIndex from 'content-collections/blogsIndex.json'
+import docsIndex from 'content-collections/docsIndex.json'
+
+// Only the small indexes listing the documents are read here, so client
+// components can import these lookups. The other indexes stay on the server,
+// see `content-index.ts`
+export const blogIndex = blogsIndex as BlogIndexEntry[]
+export const docIndex = docsIndex as DocIndexEntry[]
+
+export function getBlogIndex(locale: LocaleOptions) {
+  return blogIndex.filter(entry => entry.locale === locale)
+}
+
+export function getDocIndex(locale: LocaleOptions) {
+  return docIndex.filter(entry => entry.locale === locale)
+}
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+
+import { getFeedContent } from './feed-content'
+
+const link = 'https://example.com/en/blog/guides/intro'
+
+function render(raw: string) {
+  return getFeedContent({ raw, link, locale: 'en' })
+}
+
+beforeAll(() => {
+  process.env.NEXT_PUBLIC_APP_URL = 'https://example.com'
+})
+
+describe('getFeedContent', () => {
+  test('resolves anchors against the post', async () => {
+    expect(await render('[Setup](#setup)')).toContain(
+      `href="${link}#setup"`
+    )
+  })
+
+  test('resolves relative URLs against the post', async () => {
+    const html = await render('[Next](./next) ![Cover](../cover.png)')
+
+    expect(html).toContain('href="https://example.com/en/blog/guides/next"')
+    expect(html).toContain('src="https://example.com/en/blog/cover.png"')
+  })
+
+  test('localizes the paths of the site routes', async () => {
+    const html = await render('[Intro](/docs/intro#setup) [Posts](/blog)')
+
+    expect(html).toContain('href="https://example.com/en/docs/intro#setup"')
+    expect(html).toContain('href="https://example.com/en/blog"')
+
+    const vi = await getFeedContent({
+      raw: '[Intro](/docs/intro)',
+      link: 'https://example.com/bai-viet/intro',
+      locale: 'vi',
+    })
+
+    expect(vi).toContain('href="https://example.com/tai-lieu/intro"')
+  })
+
+  test('keeps the paths of static files', async () => {
+    expect(await render('![Cover](/images/cover.png)')).toContain(
+      'src="https://example.com/images/cover.png"'
+    )
+  })
+
+  test('keeps absolute URLs', async () => {
+    const html = await render(
+      '[Site](https://nextjs.org) [Mail](mailto:me@example.com) ![CDN](//cdn.example.com/a.png)'
+    )
+
+    expect(html).toContain('href="https://nextjs.org"')
+    expect(html).toContain('href="mailto:me@example.com"')
+    expect(html).toContain('src="//cdn.example.com/a.png"')
+  })
+})
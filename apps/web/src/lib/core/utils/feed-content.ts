@@ -0,0 +1,123 @@
+import type { Root as HastRoot } from 'hast'
+import type { Root as MdastRoot, RootContent } from 'mdast'
+import { toHtml } from 'hast-util-to-html'
+import { SKIP, visit } from 'unist-util-visit'
+import remarkRehype from 'remark-rehype'
+import remarkGfm from 'remark-gfm'
+import remarkMdx from 'remark-mdx'
+import { remark } from 'remark'
+
+import type { LocaleOptions } from '../types/i18n'
+
+import { getHref, getLocalizedUrl } from '@/lib/core/navigation'
+import { absoluteUrl } from '@/lib/utils'
+import { rehypeHeadingIds } from './rehype-heading-ids'
+
+const urlProperties = ['href', 'src'] as const
+
+// `https:`, `mailto:`...
+const urlSchemeRegex = /^[a-z][a-z\d+.-]*:/i
+
+// Feed readers cannot run the imports, expressions or components of a post,
+// only the markdown written inside components is kept
+function remarkStripMdx() {
+  return (tree: MdastRoot) => {
+    visit(tree, (node, index, parent) => {
+      if (!parent || index === undefined) {
+        return
+      }
+
+      if (
+        node.type === 'mdxjsEsm' ||
+        node.type === 'mdxFlowExpression' ||
+        node.type === 'mdxTextExpression'
+      ) {
+        parent.children.splice(index, 1)
+
+        return [SKIP, index]
+      }
+
+      if (
+        node.type === 'mdxJsxFlowElement' ||
+        node.type === 'mdxJsxTextElement'
+      ) {
+        parent.children.splice(
+          index,
+          1,
+          ...(node.children as RootContent[] as typeof parent.children)
+        )
+
+        return [SKIP, index]
+      }
+    })
+  }
+}
+
+/**
+ * Feed readers resolve relative URLs against the feed, not the post. Paths
+ * of the site's routes, like `/docs/intro`, get the segments of `locale` and
+ * paths relative to the post are resolved against `link`
+ */
+function getAbsoluteUrl(url: string, link: string, locale: LocaleOptions) {
+  if (url.startsWith('#')) {
+    return `${link}${url}`
+  }
+
+  if (url.startsWith('//') || urlSchemeRegex.test(url)) {
+    return url
+  }
+
+  if (!url.startsWith('/')) {
+    return new URL(url, link).href
+  }
+
+  return typeof getHref(url) === 'string'
+    ? absoluteUrl(url)
+    : getLocalizedUrl(url, locale)
+}
+
+function rehypeAbsoluteUrls({
+  link,
+  locale,
+}: {
+  link: string
+  locale: LocaleOptions
+}) {
+  return (tree: HastRoot) => {
+    visit(tree, 'element', node => {
+      for (const property of urlProperties) {
+        const url = node.properties[property]
+
+        if (typeof url === 'string') {
+          node.properties[property] = getAbsoluteUrl(url, link, locale)
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Renders the markdown of a post to the HTML of its feed items. `link` is the
+ * URL of the post, the anchors of the headings are resolved against it
+ */
+export async function getFeedContent({
+  raw,
+  link,
+  locale,
+}: {
+  raw: string
+  link: string
+  locale: LocaleOptions
+}) {
+  const processor = remark()
+    .use(remarkMdx)
+    .use(remarkGfm)
+    .use(remarkStripMdx)
+    .use(remarkRehype)
+    .use(rehypeHeadingIds)
+    .use(rehypeAbsoluteUrls, { link, locale })
+
+  const tree = await processor.run(processor.parse(raw))
+
+  return toHtml(tree)
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'node:crypto'
+
+import type { FeedIndexEntry } from '../types/content-index'
+import type { BlogFeedFilter } from '../types/blog'
+import type { LocaleOptions } from '../types/i18n'
+
+import { slugify } from './slugify'
+
+interface FeedPost {
+  locale: LocaleOptions
+  date: string
+  tags: string[]
+  authorId?: string
+  /** Everything the item of the post is rendered from */
+  content: string
+}
+
+function getFeedIndexEntry(
+  locale: LocaleOptions,
+  posts: FeedPost[],
+  filter?: BlogFeedFilter
+): FeedIndexEntry {
+  const hash = createHash('sha1')
+
+  for (const post of posts) {
+    hash.update(post.content)
+  }
+
+  const lastModified = Math.max(
+    ...posts.map(post => new Date(post.date).getTime())
+  )
+
+  return {
+    locale,
+    filter,
+    hash: hash.digest('hex'),
+    lastModified: new Date(lastModified).toISOString(),
+  }
+}
+
+/**
+ * Lists the validators of every feed, the proxy answers the feed readers
+ * that already have the latest version without reaching the feed routes
+ */
+export function getFeedIndex(posts: FeedPost[]) {
+  const postsByFeed = new Map<
+    string,
+    { locale: LocaleOptions; filter?: BlogFeedFilter; posts: FeedPost[] }
+  >()
+
+  function addPost(post: FeedPost, key: string, filter?: BlogFeedFilter) {
+    const feed = postsByFeed.get(key) ?? {
+      locale: post.locale,
+      filter,
+      posts: [],
+    }
+
+    feed.posts.push(post)
+    postsByFeed.set(key, feed)
+  }
+
+  const sortedPosts = [...posts].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  )
+
+  for (const post of sortedPosts) {
+    addPost(post, post.locale)
+
+    for (const tag of new Set(post.tags.map(slugify).filter(Boolean))) {
+      addPost(post, `${post.locale}/tags/${tag}`, { tag })
+    }
+
+    if (post.authorId) {
+      addPost(post, `${post.locale}/authors/${post.authorId}`, {
+        author: post.authorId,
+      })
+    }
+  }
+
+  return Array.from(postsByFeed.values()).map(({ locale, filter, posts }) =>
+    getFeedIndexEntry(locale, posts, filter)
+  )
+}
@@ -0,0 +1,67 @@
+import 'server-only'
+
+import type { FeedIndexEntry } from '../types/content-index'
+import type { BlogFeedFilter, RSSFeed } from '../types/blog'
+import type { LocaleOptions } from '../types/i18n'
+
+import {
+  type CacheValidators,
+  cacheControl,
+  getCacheHeaders,
+} from './http-cache'
+
+import feedsIndex from 'content-collections/feedsIndex.json'
+
+// Read by the proxy and the feed routes only, the paths of the feeds that
+// pages link are in `feeds.ts`
+const feedIndex = feedsIndex as FeedIndexEntry[]
+
+interface Feed {
+  rss: RSSFeed
+  locale: LocaleOptions
+  filter?: BlogFeedFilter
+}
+
+function isSameFeedFilter(a?: BlogFeedFilter, b?: BlogFeedFilter) {
+  if (!a || !b) {
+    return a === b
+  }
+
+  return 'tag' in a
+    ? 'tag' in b && a.tag === b.tag
+    : 'author' in b && a.author === b.author
+}
+
+/**
+ * Validators of a feed, from the hash of its posts computed when the content
+ * is built. Feeds without posts have none
+ */
+export function getFeedValidators({
+  rss,
+  locale,
+  filter,
+}: Feed): CacheValidators | undefined {
+  const entry = feedIndex.find(
+    entry =>
+      entry.locale === locale && isSameFeedFilter(entry.filter, filter)
+  )
+
+  if (!entry) {
+    return undefined
+  }
+
+  return {
+    etag: `"${entry.hash}-${rss.type}"`,
+    lastModified: new Date(entry.lastModified),
+  }
+}
+
+export function getFeedHeaders(feed: Feed) {
+  const validators = getFeedValidators(feed)
+
+  return {
+    'Content-Type': feed.rss.contentType,
+    'Cache-Control': cacheControl.feed,
+    ...(validators && getCacheHeaders(validators, cacheControl.feed)),
+  }
+}
@@ -0,0 +1,109 @@
+import { isLocale } from '@blog/i18n'
+
+import type { BlogFeedFilter, RSSFeed } from '../types/blog'
+import type { LocaleOptions } from '../types/i18n'
+
+import { absoluteUrl } from '@/lib/utils'
+import { blogConfig } from '@/config/blog'
+
+export const feedMimeTypes: Record<RSSFeed['type'], string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+}
+
+// Filtered feeds are named after their tag or author, with the extension of
+// the format (`blog.atom` -> `nextjs.atom`)
+function getFeedExtension(file: string) {
+  return file.slice(file.lastIndexOf('.'))
+}
+
+export function getFeedPath({
+  rss,
+  locale,
+  filter,
+}: {
+  rss: RSSFeed
+  locale: LocaleOptions
+  filter?: BlogFeedFilter
+}) {
+  if (!filter) {
+    return `/${locale}/feed/${rss.file}`
+  }
+
+  const extension = getFeedExtension(rss.file)
+
+  return 'tag' in filter
+    ? `/${locale}/feed/tags/${filter.tag}${extension}`
+    : `/${locale}/feed/authors/${filter.author}${extension}`
+}
+
+/** Files of the feeds of a tag or an author, one per format */
+export function getFilteredFeedFiles(slug: string) {
+  return blogConfig.rss.map(({ file }) => `${slug}${getFeedExtension(file)}`)
+}
+
+/** Splits a filtered feed file, `nextjs.xml`, into a slug and a format */
+export function parseFilteredFeedFile(file: string) {
+  const rss = blogConfig.rss.find(({ file: feedFile }) =>
+    file.endsWith(getFeedExtension(feedFile))
+  )
+
+  if (!rss) {
+    return null
+  }
+
+  return { rss, slug: file.slice(0, -getFeedExtension(rss.file).length) }
+}
+
+/** Reads the feed of a path, e.g. `/vi/feed/tags/nextjs.xml` */
+export function parseFeedPath(pathname: string) {
+  const [, locale, segment, ...segments] = pathname.split('/')
+
+  if (segment !== 'feed' || !isLocale(locale)) {
+    return null
+  }
+
+  if (segments.length === 1) {
+    const rss = blogConfig.rss.find(({ file }) => file === segments[0])
+
+    return rss ? { locale, rss } : null
+  }
+
+  const [type, file] = segments
+  const feedFile = segments.length === 2 && parseFilteredFeedFile(file)
+
+  if (!feedFile) {
+    return null
+  }
+
+  switch (type) {
+    case 'tags':
+      return { locale, rss: feedFile.rss, filter: { tag: feedFile.slug } }
+
+    case 'authors':
+      return { locale, rss: feedFile.rss, filter: { author: feedFile.slug } }
+
+    default:
+      return null
+  }
+}
+
+/** Feeds listed in the `<head>` of a page, for `alternates.types` */
+export function getFeedAlternates({
+  locale,
+  feeds,
+}: {
+  locale: LocaleOptions
+  feeds: { title: string; filter?: BlogFeedFilter }[]
+}) {
+  return Object.fromEntries(
+    blogConfig.rss.map(rss => [
+      feedMimeTypes[rss.type],
+      feeds.map(({ title, filter }) => ({
+        title,
+        url: absoluteUrl(getFeedPath({ rss, locale, filter })),
+      })),
+    ])
+  )
+}
@@ -0,0 +1,27 @@
+import { execFileSync } from 'node:child_process'
+import { statSync } from 'node:fs'
+
+/**
+ * Date of the last commit touching the file, as an ISO string, so the dates
+ * survive a fresh checkout. Files that are not committed yet fall back to
+ * their mtime, files without either are left undated
+ */
+export function getFileUpdatedAt(filePath: string) {
+  try {
+    const date = execFileSync(
+      'git',
+      ['log', '-1', '--format=%cI', '--', filePath],
+      { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }
+    ).trim()
+
+    if (date) {
+      return new Date(date).toISOString()
+    }
+  } catch {}
+
+  try {
+    return statSync(filePath).mtime.toISOString()
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,34 @@
+import { allBlogs, allDocs } from 'content-collections'
+
+import type { LocaleOptions } from '../types/i18n'
+
+import { getDocumentSearchSections } from './search-sections'
+import { createSearchIndex, type SearchIndex } from './search'
+import { getVisibleContent } from './publication'
+
+const searchIndexes = new Map<LocaleOptions, SearchIndex>()
+
+// Built from the same collections the blog and docs routes render, once per
+// locale for the lifetime of the server
+export function getServerSearchIndex(locale: LocaleOptions) {
+  let searchIndex = searchIndexes.get(locale)
+
+  if (!searchIndex) {
+    const sections = [
+      ...getVisibleContent(allBlogs).flatMap(blog =>
+        getDocumentSearchSections('blog', blog)
+      ),
+      ...getVisibleContent(allDocs).flatMap(doc =>
+        getDocumentSearchSections('docs', doc)
+      ),
+    ]
+
+    searchIndex = createSearchIndex(
+      sections.filter(section => section.locale === locale)
+    )
+
+    searchIndexes.set(locale, searchIndex)
+  }
+
+  return searchIndex
+}
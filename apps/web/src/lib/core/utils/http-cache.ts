@@ -0,0 +1,79 @@
+// Shared by the proxy and the routes, so only Web APIs are used here
+
+export interface CacheValidators {
+  /** Quoted entity tag, e.g. `"3f2a…"` */
+  etag: string
+  /** Left out when nothing dates the content, like docs */
+  lastModified?: Date
+}
+
+export const cacheControl = {
+  // Feed readers poll often, shared caches keep the feeds between deploys
+  feed: 'public, max-age=600, s-maxage=3600, stale-while-revalidate=86400',
+  ogImage:
+    'public, max-age=86400, s-maxage=604800, stale-while-revalidate=604800',
+  // Responses of draft mode may show unpublished content
+  preview: 'private, no-store',
+} as const
+
+/** Strong entity tag of `parts`, equal parts always give the same tag */
+export async function getEtag(...parts: string[]) {
+  const digest = await crypto.subtle.digest(
+    'SHA-1',
+    new TextEncoder().encode(parts.join('\n'))
+  )
+
+  const hash = Array.from(new Uint8Array(digest), byte =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+
+  return `"${hash}"`
+}
+
+export function getCacheHeaders(
+  { etag, lastModified }: CacheValidators,
+  directives: string
+) {
+  return {
+    ETag: etag,
+    'Cache-Control': directives,
+    ...(lastModified && { 'Last-Modified': lastModified.toUTCString() }),
+  }
+}
+
+/**
+ * Whether the copy the client already has is still fresh. `If-None-Match`
+ * wins over `If-Modified-Since` when both are sent, as in RFC 9110
+ */
+export function isNotModified(
+  headers: Headers,
+  { etag, lastModified }: CacheValidators
+) {
+  const ifNoneMatch = headers.get('if-none-match')
+
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map(tag => tag.trim().replace(/^W\//, ''))
+      .some(tag => tag === '*' || tag === etag)
+  }
+
+  const ifModifiedSince = Date.parse(headers.get('if-modified-since') ?? '')
+
+  // HTTP dates have no milliseconds
+  return (
+    lastModified !== undefined &&
+    !Number.isNaN(ifModifiedSince) &&
+    Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince
+  )
+}
+
+export function getNotModifiedResponse(
+  validators: CacheValidators,
+  directives: string
+) {
+  return new Response(null, {
+    status: 304,
+    headers: getCacheHeaders(validators, directives),
+  })
+}
@@ -1,3 +1,5 @@
+import { isLocale } from '@blog/i18n'
+
 import { defaultLocale, locales } from '@/config/i18n'
 
 import type { LocaleOptions } from '../types/i18n'
@@ -24,3 +26,28 @@ export function getSlugWithoutLocale(slug: string, context: string) {
 
   return slugWithoutLocaleFolder
 }
+
+/**
+ * Best supported locale of an `Accept-Language` header, e.g.
+ * `en-US,en;q=0.9,vi;q=0.8` gives `en`. Regions are ignored, the site only
+ * has one version per language
+ */
+export function getAcceptLanguageLocale(header: string | null) {
+  const languages = (header ?? '')
+    .split(',')
+    .map(language => {
+      const [tag, ...options] = language.trim().split(';')
+      const quality = options.find(option => option.trim().startsWith('q='))
+
+      return {
+        locale: tag.split('-')[0].toLowerCase(),
+        quality: quality ? Number(quality.trim().slice(2)) : 1,
+      }
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  return languages.find(({ locale }) => isLocale(locale))?.locale as
+    | LocaleOptions
+    | undefined
+}
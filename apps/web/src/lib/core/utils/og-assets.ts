@@ -0,0 +1,72 @@
+import { readFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+
+import { ogConfig } from '@/config/og'
+
+const imageTypes: Record<string, string> = {
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+}
+
+/**
+ * Inlines an image of `public` as a data URL, so the OG images don't fetch
+ * the site they are part of. Gives `undefined` when the file is missing,
+ * external URLs are kept as they are
+ */
+export async function getOgAsset(path?: string) {
+  if (!path || /^https?:\/\//.test(path)) {
+    return path
+  }
+
+  const type = imageTypes[extname(path).toLowerCase()]
+
+  if (!type) {
+    return undefined
+  }
+
+  try {
+    const data = await readFile(join(process.cwd(), 'public', path))
+    return `data:${type};base64,${data.toString('base64')}`
+  } catch {
+    return undefined
+  }
+}
+
+/** Background and logo shared by every OG image */
+export async function getOgSiteAssets() {
+  const [background, logo] = await Promise.all([
+    getOgAsset(ogConfig.background),
+    getOgAsset(ogConfig.logo),
+  ])
+
+  return { background, logo }
+}
+
+/**
+ * Fonts of the OG images, read from `public/fonts` instead of being fetched
+ * from the site so the images also render during the build and offline
+ */
+export async function getOgFonts() {
+  const fonts = await Promise.all(
+    ogConfig.fonts.map(async ({ file, weight }) => {
+      try {
+        const data = await readFile(join(process.cwd(), 'public/fonts', file))
+
+        return {
+          name: 'Be Vietnam Pro',
+          data,
+          weight,
+          style: 'normal' as const,
+        }
+      } catch (error) {
+        console.warn(`Failed to load the font ${file}, using fallback:`, error)
+        return null
+      }
+    })
+  )
+
+  return fonts.filter(font => font !== null)
+}
@@ -0,0 +1,137 @@
+import vi from '@blog/i18n/messages/vi.json'
+import en from '@blog/i18n/messages/en.json'
+import type { Blog, Doc } from 'content-collections'
+import { createTranslator } from 'next-intl'
+import { ImageResponse } from 'next/og'
+import { createHash } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+
+import { OgImage, type OgImageProps } from '@/components/og/og-image'
+import { absoluteUrl, formatDate, isDev } from '@/lib/utils'
+import type { LocaleOptions } from '../types/i18n'
+import { dateLocales } from '@/config/i18n'
+import { siteConfig } from '@/config/site'
+import { ogConfig } from '@/config/og'
+
+import { getOgAsset, getOgFonts, getOgSiteAssets } from './og-assets'
+import { getOgVersion } from './og-version'
+import { getEtag } from './http-cache'
+import { getObjectValueByLocale } from './locale'
+import { getBreadcrumb } from './doc'
+
+// Read without a request, the images are also rendered by a build script
+const messages = { vi, en }
+
+// Computed once by `next.config.ts`, build scripts hash the files themselves
+const ogVersion = process.env.OG_VERSION ?? getOgVersion()
+
+export function getSiteOgImage(locale: LocaleOptions): OgImageProps {
+  return {
+    template: ogConfig.defaultTemplate,
+    title: siteConfig.name,
+    description: getObjectValueByLocale(siteConfig.description, locale),
+  }
+}
+
+/** Posts without a translation are shown with the texts of `locale` */
+export function getBlogOgImage(
+  post: Blog,
+  locale: LocaleOptions
+): OgImageProps {
+  const t = createTranslator({
+    locale,
+    messages: messages[locale],
+    namespace: 'blog.cards',
+  })
+
+  return {
+    template: post.og_template ?? ogConfig.defaultTemplate,
+    title: post.title,
+    tags: post.tags,
+    readTime: t('min_read', { count: post.readTimeInMinutes }),
+    date: formatDate(post.date, getObjectValueByLocale(dateLocales, locale)),
+
+    author: post.author?.name
+      ? { name: post.author.name, image: post.author.image }
+      : undefined,
+  }
+}
+
+/** Docs without a translation keep the breadcrumb of `locale` */
+export function getDocOgImage(doc: Doc, locale: LocaleOptions): OgImageProps {
+  const t = createTranslator({
+    locale,
+    messages: messages[locale],
+    namespace: 'docs',
+  })
+
+  const breadcrumb = [
+    t('docs'),
+    ...getBreadcrumb(doc.slug)
+      .slice(0, -1)
+      .map(item => getObjectValueByLocale(item.title, locale)),
+  ]
+
+  return {
+    template: doc.og_template ?? ogConfig.defaultTemplate,
+    title: doc.title,
+    eyebrow: breadcrumb.join('  ›  '),
+    description:
+      doc.description ??
+      getObjectValueByLocale(siteConfig.description, locale),
+  }
+}
+
+/**
+ * Path of the pre-rendered image in `public`, named after the hash of
+ * everything it shows and of the version of the templates, so it only
+ * changes along with them
+ */
+export function getOgImagePath(image: OgImageProps) {
+  const hash = createHash('sha1')
+    .update(ogVersion)
+    .update(JSON.stringify(image))
+    .digest('hex')
+    .slice(0, 16)
+
+  return `/og/${hash}.png`
+}
+
+/**
+ * URL of the image rendered by `scripts/generate-og-images.tsx`. Development
+ * and images missing from the build are served by the OG routes instead
+ */
+export function getStaticOgImageUrl(image: OgImageProps) {
+  const path = getOgImagePath(image)
+
+  if (isDev || !existsSync(join(process.cwd(), 'public', path))) {
+    return undefined
+  }
+
+  return absoluteUrl(path)
+}
+
+/** Entity tag of the image, following the same version as its file name */
+export function getOgImageEtag(image: OgImageProps) {
+  return getEtag(ogVersion, JSON.stringify(image))
+}
+
+export async function renderOgImage(
+  image: OgImageProps,
+  headers?: HeadersInit
+) {
+  const [fonts, assets, avatar] = await Promise.all([
+    getOgFonts(),
+    getOgSiteAssets(),
+    getOgAsset(image.author?.image),
+  ])
+
+  const author = image.author && { ...image.author, image: avatar }
+
+  return new ImageResponse(<OgImage {...assets} {...image} author={author} />, {
+    ...siteConfig.og.size,
+    fonts,
+    headers,
+  })
+}
@@ -0,0 +1,33 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+
+// Relative import, `next.config.ts` loads this module without the aliases
+import { ogConfig } from '../../../config/og'
+
+// What the OG images are drawn with besides their props
+const ogVersionFiles = [
+  'src/components/og/og-image.tsx',
+  ...ogConfig.fonts.map(({ file }) => `public/fonts/${file}`),
+  `public${ogConfig.background}`,
+  `public${ogConfig.logo}`,
+]
+
+/**
+ * Hash of the template, fonts and assets of the OG images. It goes into
+ * their file names and entity tags, so a new layout or font is not hidden
+ * by the copies cached as immutable. Missing files are hashed by name only
+ */
+export function getOgVersion() {
+  const hash = createHash('sha1')
+
+  for (const file of ogVersionFiles) {
+    hash.update(file)
+
+    try {
+      hash.update(readFileSync(join(process.cwd(), file)))
+    } catch {}
+  }
+
+  return hash.digest('hex').slice(0, 8)
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test'
+
+import { getPublicationStatus, isContentVisible } from './publication'
+
+const now = new Date('2025-06-01T12:00:00Z')
+
+describe('getPublicationStatus', () => {
+  test('publishes content without draft or publishAt', () => {
+    expect(getPublicationStatus({}, now)).toBe('published')
+  })
+
+  test('keeps drafts unpublished whatever their publishAt', () => {
+    expect(getPublicationStatus({ draft: true }, now)).toBe('draft')
+
+    expect(
+      getPublicationStatus({ draft: true, publishAt: '2020-01-01' }, now)
+    ).toBe('draft')
+  })
+
+  test('schedules content with a publishAt in the future', () => {
+    expect(
+      getPublicationStatus({ publishAt: '2025-06-01T12:00:01Z' }, now)
+    ).toBe('scheduled')
+  })
+
+  test('publishes content once its publishAt is reached', () => {
+    expect(
+      getPublicationStatus({ publishAt: '2025-06-01T12:00:00Z' }, now)
+    ).toBe('published')
+
+    expect(
+      getPublicationStatus({ publishAt: '2025-05-31 08:00:00' }, now)
+    ).toBe('published')
+  })
+})
+
+describe('isContentVisible', () => {
+  test('hides drafts outside of development', () => {
+    expect(isContentVisible({ draft: true })).toBe(false)
+    expect(isContentVisible({ draft: false })).toBe(true)
+  })
+})
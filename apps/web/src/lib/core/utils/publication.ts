@@ -0,0 +1,38 @@
+import type { PublicationStatus } from '../types/publication'
+
+interface PublishableContent {
+  draft?: boolean
+  publishAt?: string
+}
+
+export function getPublicationStatus(
+  { draft, publishAt }: PublishableContent,
+  now = new Date()
+): PublicationStatus {
+  if (draft) {
+    return 'draft'
+  }
+
+  if (publishAt && new Date(publishAt) > now) {
+    return 'scheduled'
+  }
+
+  return 'published'
+}
+
+/**
+ * Drafts and posts scheduled for later are only visible in development, so
+ * they can be previewed locally without going live
+ */
+export function isContentVisible(content: PublishableContent) {
+  return (
+    process.env.NODE_ENV === 'development' ||
+    getPublicationStatus(content) === 'published'
+  )
+}
+
+export function getVisibleContent<TContent extends PublishableContent>(
+  contents: TContent[]
+) {
+  return contents.filter(isContentVisible)
+}
@@ -0,0 +1,45 @@
+import type { Node } from 'unist'
+import { visit } from 'unist-util-visit'
+
+import type { UnistNode } from '../types/unist'
+import { createSlugger } from './slugify'
+
+const headingTagNames = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+
+function getText(node: UnistNode) {
+  const text: string[] = []
+
+  visit(node, (child: UnistNode) => {
+    if (child.type === 'text' && child.value) {
+      text.push(child.value)
+    }
+  })
+
+  return text.join('')
+}
+
+/**
+ * Gives every heading without an id an ASCII one from the shared slugger, so
+ * anchors match the table of contents and the search index
+ */
+export function rehypeHeadingIds() {
+  return (tree: Node) => {
+    const slugger = createSlugger()
+
+    visit(tree, (node: UnistNode) => {
+      if (
+        node.type !== 'element' ||
+        !node.tagName ||
+        !headingTagNames.includes(node.tagName)
+      ) {
+        return
+      }
+
+      node.properties = node.properties ?? {}
+
+      if (!node.properties.id) {
+        node.properties.id = slugger.slug(getText(node))
+      }
+    })
+  }
+}
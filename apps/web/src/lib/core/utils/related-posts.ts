@@ -0,0 +1,124 @@
+import type { RelatedPostsIndexEntry } from '../types/content-index'
+import type { LocaleOptions } from '../types/i18n'
+
+import { tokenizeSearchText } from './search'
+
+interface RelatedPostCandidate {
+  slug: string
+  locale: LocaleOptions
+  date: string
+  tags: string[]
+  text: string
+}
+
+type TermVector = Map<string, number>
+
+const tagsWeight = 0.5
+const termsWeight = 0.5
+
+function getTermFrequencies(text: string): TermVector {
+  const frequencies: TermVector = new Map()
+
+  // Single letters carry no meaning on their own
+  for (const term of tokenizeSearchText(text)) {
+    if (term.length > 1) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1)
+    }
+  }
+
+  return frequencies
+}
+
+function getTfIdfVectors(candidates: RelatedPostCandidate[]) {
+  const termFrequencies = candidates.map(({ text }) => getTermFrequencies(text))
+  const documentFrequencies = new Map<string, number>()
+
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1)
+    }
+  }
+
+  // Terms used by every post get a weight of zero, which takes care of the
+  // stop words without keeping a list of them
+  return termFrequencies.map(frequencies => {
+    const vector: TermVector = new Map()
+
+    for (const [term, frequency] of frequencies) {
+      const idf = Math.log(
+        candidates.length / (documentFrequencies.get(term) ?? 1)
+      )
+
+      if (idf > 0) {
+        vector.set(term, frequency * idf)
+      }
+    }
+
+    return vector
+  })
+}
+
+function getCosineSimilarity(a: TermVector, b: TermVector) {
+  let dotProduct = 0
+
+  for (const [term, weight] of a) {
+    dotProduct += weight * (b.get(term) ?? 0)
+  }
+
+  const magnitude = (vector: TermVector) =>
+    Math.sqrt(
+      Array.from(vector.values()).reduce((sum, weight) => sum + weight ** 2, 0)
+    )
+
+  const magnitudes = magnitude(a) * magnitude(b)
+
+  return magnitudes ? dotProduct / magnitudes : 0
+}
+
+function getTagsSimilarity(a: string[], b: string[]) {
+  const tags = new Set([...a, ...b])
+  const sharedTags = a.filter(tag => b.includes(tag))
+
+  return tags.size ? sharedTags.length / tags.size : 0
+}
+
+/**
+ * Scores every pair of posts of the same locale by their shared tags
+ * (Jaccard index) and the cosine similarity of their TF-IDF vectors, and
+ * keeps the best matches of each post. Ties are broken by date then slug, so
+ * the result is the same on every build
+ */
+export function getRelatedPosts(
+  candidates: RelatedPostCandidate[],
+  limit = 3
+): RelatedPostsIndexEntry[] {
+  const vectors = getTfIdfVectors(candidates)
+
+  return candidates.map((post, postIndex) => {
+    const related = candidates
+      .map((candidate, candidateIndex) => ({
+        candidate,
+        score:
+          candidate.locale === post.locale && candidateIndex !== postIndex
+            ? tagsWeight * getTagsSimilarity(post.tags, candidate.tags) +
+              termsWeight *
+                getCosineSimilarity(vectors[postIndex], vectors[candidateIndex])
+            : 0,
+      }))
+      .filter(({ score }) => score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.candidate.date.localeCompare(a.candidate.date) ||
+          a.candidate.slug.localeCompare(b.candidate.slug)
+      )
+      .slice(0, limit)
+      .map(({ candidate }) => candidate.slug)
+
+    return {
+      slug: post.slug,
+      locale: post.locale,
+      related,
+    }
+  })
+}
@@ -0,0 +1,33 @@
+import type { LocaleOptions } from '../types/i18n'
+import type { SearchSection } from '../types/search'
+
+import { createSearchIndex, type SearchIndex } from './search'
+
+const searchIndexes = new Map<LocaleOptions, Promise<SearchIndex>>()
+
+async function importSearchSections() {
+  const [blogs, docs] = await Promise.all([
+    import('content-collections/blogsSearchIndex.json'),
+    import('content-collections/docsSearchIndex.json'),
+  ])
+
+  return [...blogs.default, ...docs.default] as SearchSection[]
+}
+
+// The sections are only fetched the first time the search is opened, keeping
+// them out of the bundle of every page rendering the search menu
+export function loadSearchIndex(locale: LocaleOptions) {
+  let searchIndex = searchIndexes.get(locale)
+
+  if (!searchIndex) {
+    searchIndex = importSearchSections().then(sections =>
+      createSearchIndex(sections.filter(section => section.locale === locale))
+    )
+
+    searchIndexes.set(locale, searchIndex)
+
+    searchIndex.catch(() => searchIndexes.delete(locale))
+  }
+
+  return searchIndex
+}
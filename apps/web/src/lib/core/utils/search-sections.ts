@@ -0,0 +1,108 @@
+import { toString as mdastToString } from 'mdast-util-to-string'
+import remarkGfm from 'remark-gfm'
+import { remark } from 'remark'
+import type { Nodes } from 'mdast'
+
+import type { SearchContentType, SearchSection } from '../types/search'
+
+import { splitLocalizedSlug } from './write-content-index'
+import { createSlugger } from './slugify'
+
+type SearchDocument = Omit<SearchSection, 'heading' | 'anchor' | 'content'>
+
+interface SearchableDocument {
+  slugAsParams: string
+  title: string
+  tags?: string[]
+  date?: string
+  body: {
+    raw: string
+  }
+}
+
+// Blocks that are not prose, their text would only add noise to the results
+const skippedNodeTypes = ['code', 'html', 'yaml', 'definition']
+
+// Text blocks are joined with spaces, so list items or table cells do not get
+// glued together like `mdast-util-to-string` does with nested blocks
+function getBlockText(node: Nodes): string {
+  if (skippedNodeTypes.includes(node.type)) {
+    return ''
+  }
+
+  if (node.type === 'paragraph' || node.type === 'tableCell') {
+    return mdastToString(node)
+  }
+
+  if ('children' in node) {
+    return node.children.map(getBlockText).join(' ')
+  }
+
+  return 'value' in node ? node.value : ''
+}
+
+function normalizeSearchText(text: string) {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Splits a raw MDX body into one search section per heading. Anchors are
+ * generated with the same slugger `rehypeHeadingIds` uses, so they match the
+ * ids rendered on the page
+ */
+export function getSearchSections(
+  document: SearchDocument,
+  raw: string
+): SearchSection[] {
+  const tree = remark().use(remarkGfm).parse(raw)
+  const slugger = createSlugger()
+
+  const sections: SearchSection[] = [{ ...document, content: '' }]
+  let blocks: string[] = []
+
+  function closeSection() {
+    const section = sections[sections.length - 1]
+
+    section.content = normalizeSearchText(blocks.join(' '))
+    blocks = []
+  }
+
+  for (const node of tree.children) {
+    if (node.type === 'heading') {
+      const heading = normalizeSearchText(mdastToString(node))
+
+      closeSection()
+
+      sections.push({
+        ...document,
+        heading,
+        anchor: slugger.slug(mdastToString(node)),
+        content: '',
+      })
+
+      continue
+    }
+
+    blocks.push(getBlockText(node))
+  }
+
+  closeSection()
+
+  return sections.filter(section => section.heading || section.content)
+}
+
+export function getDocumentSearchSections(
+  type: SearchContentType,
+  document: SearchableDocument
+) {
+  return getSearchSections(
+    {
+      ...splitLocalizedSlug(document.slugAsParams),
+      type,
+      title: document.title,
+      tags: document.tags ?? [],
+      date: document.date,
+    },
+    document.body.raw
+  )
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test'
+
+import type { SearchSection } from '../types/search'
+
+import {
+  createSearchIndex,
+  getSearchFacets,
+  groupSearchResultsByDocument,
+  searchContent,
+} from './search'
+
+function section(overrides: Partial<SearchSection>): SearchSection {
+  return {
+    type: 'blog',
+    locale: 'en',
+    slug: 'post',
+    title: 'Post',
+    tags: ['nextjs'],
+    date: '2025-01-01',
+    content: '',
+    ...overrides,
+  }
+}
+
+const index = createSearchIndex([
+  section({ slug: 'a', content: 'cache intro' }),
+  section({ slug: 'a', heading: 'Cache', anchor: 'cache', content: 'cache' }),
+  section({ slug: 'a', heading: 'More', anchor: 'more', content: 'cache' }),
+  section({ slug: 'b', date: '2024-05-01', content: 'cache' }),
+  section({ type: 'docs', slug: 'b', tags: [], content: 'cache' }),
+])
+
+describe('groupSearchResultsByDocument', () => {
+  test('keeps the best scoring section of each document', () => {
+    const results = groupSearchResultsByDocument(searchContent(index, 'cache'))
+
+    expect(
+      results.map(({ section }) => `${section.type}/${section.slug}`)
+    ).toEqual(['blog/a', 'blog/b', 'docs/b'])
+
+    expect(results[0].section.anchor).toBe('cache')
+  })
+
+  test('counts the facets once per document', () => {
+    const results = groupSearchResultsByDocument(searchContent(index, 'cache'))
+    const facets = getSearchFacets(results, {})
+
+    expect(facets.type).toEqual([
+      { value: 'blog', count: 2 },
+      { value: 'docs', count: 1 },
+    ])
+
+    expect(facets.tag).toEqual([{ value: 'nextjs', count: 2 }])
+    expect(facets.year).toEqual([
+      { value: '2025', count: 2 },
+      { value: '2024', count: 1 },
+    ])
+  })
+})
@@ -0,0 +1,361 @@
+import type {
+  SearchFacets,
+  SearchResult,
+  SearchFilters,
+  SearchSection,
+  SearchFacetValue,
+  SearchSnippetSegment,
+} from '../types/search'
+
+const combiningMarks = /[\u0300-\u036f]/g
+const wordSeparator = /[^\p{L}\p{N}]+/u
+
+const fieldWeights = {
+  title: 10,
+  heading: 6,
+  tags: 4,
+} as const
+
+const maxContentHits = 5
+const phraseBonus = 5
+
+interface PreparedSearchSection {
+  section: SearchSection
+  title: string
+  heading: string
+  tags: string
+  content: string
+}
+
+export interface SearchIndex {
+  sections: PreparedSearchSection[]
+}
+
+function foldCharacter(character: string) {
+  const folded = character
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(combiningMarks, '')
+    .replace('đ', 'd')
+
+  // Keeping every character at its original length lets match positions in
+  // the folded text be used as-is on the original text to build snippets
+  if (folded.length === character.length) {
+    return folded
+  }
+
+  const lowerCased = character.toLowerCase()
+
+  return lowerCased.length === character.length ? lowerCased : character
+}
+
+/**
+ * Lowercases the text and strips its diacritics (`Tìm kiếm` -> `tim kiem`,
+ * `đường` -> `duong`) without changing its length
+ */
+export function foldSearchText(text: string) {
+  let folded = ''
+
+  for (const character of text) {
+    folded += foldCharacter(character)
+  }
+
+  return folded
+}
+
+export function tokenizeSearchText(text: string) {
+  return foldSearchText(text.normalize('NFC'))
+    .split(wordSeparator)
+    .filter(Boolean)
+}
+
+export function getSearchTerms(query: string) {
+  return [...new Set(tokenizeSearchText(query))]
+}
+
+function getTermPattern(term: string) {
+  // Terms only contain letters and numbers, so they are safe to embed as-is
+  return new RegExp(`(?<![\\p{L}\\p{N}])${term}`, 'gu')
+}
+
+function countTermHits(text: string, term: string, max: number) {
+  const pattern = getTermPattern(term)
+  let hits = 0
+
+  while (hits < max && pattern.exec(text)) {
+    hits++
+  }
+
+  return hits
+}
+
+function getSectionScore(section: PreparedSearchSection, terms: string[]) {
+  let score = 0
+
+  for (const term of terms) {
+    const termScore =
+      countTermHits(section.title, term, 1) * fieldWeights.title +
+      countTermHits(section.heading, term, 1) * fieldWeights.heading +
+      countTermHits(section.tags, term, 1) * fieldWeights.tags +
+      countTermHits(section.content, term, maxContentHits)
+
+    // Every term of the query has to match somewhere in the section
+    if (termScore === 0) {
+      return 0
+    }
+
+    score += termScore
+  }
+
+  if (terms.length > 1) {
+    const phrase = terms.join(' ')
+
+    if (
+      [section.title, section.heading, section.content].some(text =>
+        text.includes(phrase)
+      )
+    ) {
+      score += phraseBonus
+    }
+  }
+
+  return score
+}
+
+function getMatchRanges(text: string, terms: string[]) {
+  const folded = foldSearchText(text)
+  const ranges: [number, number][] = []
+
+  for (const term of terms) {
+    for (const match of folded.matchAll(getTermPattern(term))) {
+      ranges.push([match.index, match.index + term.length])
+    }
+  }
+
+  return ranges
+    .sort(([a], [b]) => a - b)
+    .reduce<[number, number][]>((merged, range) => {
+      const last = merged.at(-1)
+
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1])
+      } else {
+        merged.push(range)
+      }
+
+      return merged
+    }, [])
+}
+
+/**
+ * Splits the text into segments, flagging the ones matching the search terms
+ * so they can be highlighted
+ */
+export function highlightSearchText(
+  text: string,
+  terms: string[]
+): SearchSnippetSegment[] {
+  const segments: SearchSnippetSegment[] = []
+  let cursor = 0
+
+  for (const [start, end] of getMatchRanges(text, terms)) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), match: false })
+    }
+
+    segments.push({ text: text.slice(start, end), match: true })
+    cursor = end
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false })
+  }
+
+  return segments
+}
+
+/**
+ * Cuts a window of the content around the first match, snapped to word
+ * boundaries, with the matches highlighted
+ */
+export function getSearchSnippet(
+  content: string,
+  terms: string[],
+  length = 160
+): SearchSnippetSegment[] {
+  const [firstMatch] = getMatchRanges(content, terms)
+  let start = firstMatch ? Math.max(firstMatch[0] - length / 4, 0) : 0
+  let end = Math.min(start + length, content.length)
+
+  if (start > 0) {
+    const wordStart = content.indexOf(' ', start)
+
+    start = wordStart === -1 || wordStart >= end ? start : wordStart + 1
+  }
+
+  if (end < content.length) {
+    const wordEnd = content.lastIndexOf(' ', end)
+
+    end = wordEnd > start ? wordEnd : end
+  }
+
+  const segments = highlightSearchText(content.slice(start, end), terms)
+
+  if (start > 0) {
+    segments.unshift({ text: '…', match: false })
+  }
+
+  if (end < content.length) {
+    segments.push({ text: '…', match: false })
+  }
+
+  return segments
+}
+
+export function createSearchIndex(sections: SearchSection[]): SearchIndex {
+  return {
+    sections: sections.map(section => ({
+      section,
+      title: foldSearchText(section.title),
+      heading: foldSearchText(section.heading ?? ''),
+      tags: foldSearchText(section.tags.join(' ')),
+      content: foldSearchText(section.content),
+    })),
+  }
+}
+
+/**
+ * Ranks the sections matching every term of the query, title matches first,
+ * then headings, tags and body text
+ */
+export function searchContent(
+  index: SearchIndex,
+  query: string,
+  limit = Number.POSITIVE_INFINITY
+): SearchResult[] {
+  const terms = getSearchTerms(query)
+
+  if (terms.length === 0) {
+    return []
+  }
+
+  return index.sections
+    .map(section => ({
+      section: section.section,
+      score: getSectionScore(section, terms),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ section, score }) => ({
+      section,
+      score,
+      snippet: getSearchSnippet(section.content, terms),
+    }))
+}
+
+/**
+ * Keeps one result per document, the best scoring of its sections, so a
+ * post matching in several sections is counted, listed and paginated once
+ */
+export function groupSearchResultsByDocument(results: SearchResult[]) {
+  const documents = new Map<string, SearchResult>()
+
+  for (const result of results) {
+    const key = `${result.section.type}/${result.section.slug}`
+    const document = documents.get(key)
+
+    if (!document || result.score > document.score) {
+      documents.set(key, result)
+    }
+  }
+
+  return Array.from(documents.values()).sort((a, b) => b.score - a.score)
+}
+
+export function getSearchResultHref(section: SearchSection) {
+  const path = [`/${section.type}`, section.slug].filter(Boolean).join('/')
+
+  return section.anchor ? `${path}#${section.anchor}` : path
+}
+
+export function getSearchSectionYear(section: SearchSection) {
+  return section.date?.slice(0, 4)
+}
+
+function matchesSearchFilters(
+  { section }: SearchResult,
+  { type, tag, year }: SearchFilters
+) {
+  return (
+    (!type || section.type === type) &&
+    (!tag || section.tags.includes(tag)) &&
+    (!year || getSearchSectionYear(section) === year)
+  )
+}
+
+export function filterSearchResults(
+  results: SearchResult[],
+  filters: SearchFilters
+) {
+  return results.filter(result => matchesSearchFilters(result, filters))
+}
+
+function countFacetValues(values: (string | undefined)[]) {
+  const counts = new Map<string, number>()
+
+  for (const value of values) {
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+  }
+
+  return Array.from(counts, ([value, count]): SearchFacetValue => ({
+    value,
+    count,
+  }))
+}
+
+/**
+ * Counts the results for every value of each facet. A facet ignores its own
+ * filter, so switching to another value of the same facet shows its count
+ */
+export function getSearchFacets(
+  results: SearchResult[],
+  filters: SearchFilters
+): SearchFacets {
+  const resultsWithout = (facet: keyof SearchFilters) =>
+    filterSearchResults(results, { ...filters, [facet]: undefined })
+
+  return {
+    type: countFacetValues(
+      resultsWithout('type').map(({ section }) => section.type)
+    ).sort((a, b) => a.value.localeCompare(b.value)),
+
+    tag: countFacetValues(
+      resultsWithout('tag').flatMap(({ section }) => section.tags)
+    ).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+
+    year: countFacetValues(
+      resultsWithout('year').map(({ section }) => getSearchSectionYear(section))
+    ).sort((a, b) => b.value.localeCompare(a.value)),
+  }
+}
+
+export function getSearchPageHref(query: string, filters: SearchFilters = {}) {
+  const searchParams = new URLSearchParams()
+
+  if (query) {
+    searchParams.set('q', query)
+  }
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      searchParams.set(key, value)
+    }
+  }
+
+  const search = searchParams.toString()
+
+  return search ? `/search?${search}` : '/search'
+}
@@ -0,0 +1,63 @@
+import type { BlogSeries } from '../types/blog'
+
+import { splitLocalizedSlug } from './write-content-index'
+
+interface SeriesPost {
+  slugAsParams: string
+  title: string
+  date: string
+  excerpt: string
+  readTimeInMinutes: number
+  /** Name of the series, as written in the frontmatter */
+  series?: string
+  seriesSlug?: string
+  seriesOrder?: number
+}
+
+function compareSeriesOrder(a: SeriesPost, b: SeriesPost) {
+  const order =
+    (a.seriesOrder ?? Number.POSITIVE_INFINITY) -
+    (b.seriesOrder ?? Number.POSITIVE_INFINITY)
+
+  // Parts without an explicit order keep their publication order
+  return order || new Date(a.date).getTime() - new Date(b.date).getTime()
+}
+
+/**
+ * Lists the series of every locale with their parts in reading order, the
+ * series are named after their first part
+ */
+export function getSeriesIndex(posts: SeriesPost[]): BlogSeries[] {
+  const postsBySeries = new Map<string, SeriesPost[]>()
+
+  for (const post of posts) {
+    if (post.seriesSlug) {
+      const { locale } = splitLocalizedSlug(post.slugAsParams)
+      const key = `${locale}/${post.seriesSlug}`
+
+      postsBySeries.set(key, [...(postsBySeries.get(key) ?? []), post])
+    }
+  }
+
+  return Array.from(postsBySeries.values()).flatMap(posts => {
+    const [first, ...rest] = [...posts].sort(compareSeriesOrder)
+
+    if (!first.series || !first.seriesSlug) {
+      return []
+    }
+
+    return {
+      slug: first.seriesSlug,
+      locale: splitLocalizedSlug(first.slugAsParams).locale,
+      title: first.series,
+
+      parts: [first, ...rest].map(post => ({
+        slug: splitLocalizedSlug(post.slugAsParams).slug,
+        title: post.title,
+        date: post.date,
+        excerpt: post.excerpt,
+        readTime: post.readTimeInMinutes,
+      })),
+    }
+  })
+}
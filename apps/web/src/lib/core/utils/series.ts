@@ -0,0 +1,63 @@
+import { allBlogs, type Blog } from 'content-collections'
+
+import type { BlogSeries } from '../types/blog'
+import type { LocaleOptions } from '../types/i18n'
+
+import { isContentVisible } from './publication'
+import { getSeriesIndex } from './series-index'
+import { splitLocalizedSlug } from './write-content-index'
+
+import blogsSeriesIndex from 'content-collections/blogsSeriesIndex.json'
+
+const seriesIndex = blogsSeriesIndex as BlogSeries[]
+
+export function getBlogSeries({
+  slug,
+  locale,
+  includeDrafts = false,
+}: {
+  slug: string
+  locale: LocaleOptions
+  includeDrafts?: boolean
+}): BlogSeries | null {
+  // The index only has the visible posts, previews of drafts group the
+  // series again with them
+  const index = includeDrafts ? getSeriesIndex(allBlogs) : seriesIndex
+
+  return (
+    index.find(series => series.slug === slug && series.locale === locale) ??
+    null
+  )
+}
+
+export function getBlogSeriesForPost(post: Blog) {
+  if (!post.seriesSlug) {
+    return null
+  }
+
+  const { locale, slug } = splitLocalizedSlug(post.slugAsParams)
+
+  // A draft opened from a preview link is listed among its visible parts
+  const series = getBlogSeries({
+    locale,
+    slug: post.seriesSlug,
+    includeDrafts: !isContentVisible(post),
+  })
+
+  const index = series?.parts.findIndex(part => part.slug === slug) ?? -1
+
+  if (!series || index === -1) {
+    return null
+  }
+
+  return {
+    series,
+    index,
+    previous: series.parts[index - 1] ?? null,
+    next: series.parts[index + 1] ?? null,
+  }
+}
+
+export function getAllBlogSeries() {
+  return seriesIndex.map(({ slug, locale }) => ({ slug, locale }))
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test'
+
+import { createSlugger, getSlugCollisions, slugify } from './slugify'
+
+describe('slugify', () => {
+  test('strips Vietnamese diacritics', () => {
+    expect(slugify('Hướng dẫn Next.js')).toBe('huong-dan-nextjs')
+    expect(slugify('Đường dẫn')).toBe('duong-dan')
+  })
+
+  test('collapses and trims the dashes left by punctuation', () => {
+    expect(slugify('Next.js & React 19')).toBe('nextjs-react-19')
+    expect(slugify('  --Hello,   world!--  ')).toBe('hello-world')
+  })
+
+  test('gives labels without ASCII letters a stable id', () => {
+    const id = slugify('中文')
+
+    expect(id).toMatch(/^section-[a-z0-9]+$/)
+    expect(slugify('中文')).toBe(id)
+    expect(slugify('日本語')).not.toBe(id)
+    expect(slugify('&')).toMatch(/^section-[a-z0-9]+$/)
+  })
+
+  test('keeps empty labels empty', () => {
+    expect(slugify('')).toBe('')
+    expect(slugify('   ')).toBe('')
+  })
+})
+
+describe('createSlugger', () => {
+  test('suffixes repeated slugs until reset', () => {
+    const slugger = createSlugger()
+
+    expect(slugger.slug('Cài đặt')).toBe('cai-dat')
+    expect(slugger.slug('Cài đặt')).toBe('cai-dat-1')
+    expect(slugger.slug('中文')).toBe(slugify('中文'))
+    expect(slugger.slug('中文')).toBe(`${slugify('中文')}-1`)
+
+    slugger.reset()
+
+    expect(slugger.slug('Cài đặt')).toBe('cai-dat')
+  })
+})
+
+describe('getSlugCollisions', () => {
+  test('groups the labels only sharing their slug', () => {
+    expect(getSlugCollisions(['C++', 'C#', 'C', 'React'])).toEqual([
+      { slug: 'c', labels: ['C++', 'C#', 'C'] },
+    ])
+  })
+
+  test('ignores the spellings of the same label', () => {
+    expect(
+      getSlugCollisions(['Hướng dẫn', 'huong dan', 'Hướng  Dẫn ', 'C', 'c'])
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,79 @@
+import GithubSlugger, { slug } from 'github-slugger'
+
+// `đ` is a letter of its own rather than a `d` with a combining mark, so NFD
+// does not split it
+function transliterate(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+}
+
+// FNV-1a, short and stable ids for labels with nothing left in ASCII
+function hash(text: string) {
+  let hash = 0x811c9dc5
+
+  for (const char of text) {
+    hash ^= char.codePointAt(0) ?? 0
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * Turns a label into an ASCII-safe URL segment, stripping Vietnamese
+ * diacritics first (`Hướng dẫn Next.js` -> `huong-dan-nextjs`). Labels
+ * without anything left in ASCII, like `中文`, get a `section-<hash>` id
+ */
+export function slugify(text: string) {
+  // github-slugger keeps the letters of every script, and removing
+  // punctuation leaves runs of `-` (`Next.js & React` -> `nextjs--react`)
+  const ascii = slug(transliterate(text))
+    .replace(/[^a-z0-9_-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+
+  if (ascii || !text.trim()) {
+    return ascii
+  }
+
+  return `section-${hash(text.trim())}`
+}
+
+/**
+ * Groups the labels getting the same slug while they differ by more than
+ * case, diacritics or spacing, like `C++`, `C#` and `C` (`c`), whose pages
+ * would be merged into one
+ */
+export function getSlugCollisions(labels: string[]) {
+  const labelsBySlug = new Map<string, Map<string, string>>()
+
+  for (const label of labels) {
+    const slug = slugify(label)
+    const folded = transliterate(label).toLowerCase().replace(/\s+/g, ' ')
+    const group = labelsBySlug.get(slug) ?? new Map<string, string>()
+
+    labelsBySlug.set(slug, group.set(folded.trim(), label))
+  }
+
+  return Array.from(labelsBySlug)
+    .filter(([, labels]) => labels.size > 1)
+    .map(([slug, labels]) => ({ slug, labels: Array.from(labels.values()) }))
+}
+
+/**
+ * Same as `slugify`, but remembers the slugs it returned and suffixes the
+ * repeated ones (`cai-dat`, `cai-dat-1`...). Heading ids, table of contents
+ * links and search anchors of a document must all be generated with a new
+ * slugger each, walking the headings in the same order
+ */
+export function createSlugger() {
+  const slugger = new GithubSlugger()
+
+  return {
+    slug: (text: string) => slugger.slug(slugify(text)),
+    reset: () => slugger.reset(),
+  }
+}
@@ -0,0 +1,59 @@
+import type { LocaleOptions } from '../types/i18n'
+import type { BlogTag } from '../types/blog'
+
+import { getBlogIndex } from './document-index'
+import { slugify } from './slugify'
+
+export function getBlogTagSlug(tag: string) {
+  return slugify(tag)
+}
+
+export function getBlogTagHref(tag: string) {
+  return `/blog/tags/${getBlogTagSlug(tag)}`
+}
+
+/**
+ * Lists the tags of the visible posts of a locale, most used first. Tags that
+ * only differ by case or diacritics share a slug and are counted together
+ */
+export function getBlogTags(locale: LocaleOptions): BlogTag[] {
+  const tags = new Map<string, BlogTag>()
+
+  for (const tag of getBlogIndex(locale).flatMap(post => post.tags)) {
+    const slug = getBlogTagSlug(tag)
+
+    if (!slug) {
+      continue
+    }
+
+    const blogTag = tags.get(slug) ?? { slug, name: tag, count: 0 }
+
+    tags.set(slug, { ...blogTag, count: blogTag.count + 1 })
+  }
+
+  return Array.from(tags.values()).sort(
+    (a, b) => b.count - a.count || a.slug.localeCompare(b.slug)
+  )
+}
+
+export function getBlogTag({
+  slug,
+  locale,
+}: {
+  slug: string
+  locale: LocaleOptions
+}) {
+  return getBlogTags(locale).find(tag => tag.slug === slug) ?? null
+}
+
+export function getBlogPostsByTag({
+  slug,
+  locale,
+}: {
+  slug: string
+  locale: LocaleOptions
+}) {
+  return getBlogIndex(locale).filter(post =>
+    post.tags.some(tag => getBlogTagSlug(tag) === slug)
+  )
+}
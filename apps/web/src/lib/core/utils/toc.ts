@@ -1,8 +1,11 @@
 /** biome-ignore-all lint/suspicious/noExplicitAny: <> */
+import { toString as mdastToString } from 'mdast-util-to-string'
 import { visit } from 'unist-util-visit'
 import { toc } from 'mdast-util-toc'
 import { remark } from 'remark'
 
+import { createSlugger } from './slugify'
+
 const textTypes = ['text', 'emphasis', 'strong', 'inlineCode']
 
 interface Item {
@@ -66,7 +69,21 @@ function getItems(node: any, current: any): Items {
   return {}
 }
 
+// `mdast-util-toc` slugs the headings itself unless they already carry an id,
+// those are the ids `rehypeHeadingIds` renders
+function setHeadingIds(tree: any) {
+  const slugger = createSlugger()
+
+  visit(tree, 'heading', (node: any) => {
+    node.data = node.data ?? {}
+    node.data.hProperties = node.data.hProperties ?? {}
+    node.data.hProperties.id = slugger.slug(mdastToString(node))
+  })
+}
+
 const getToc = () => (node: any, file: any) => {
+  setHeadingIds(node)
+
   const table = toc(node)
   const items = getItems(table.map, {})
 
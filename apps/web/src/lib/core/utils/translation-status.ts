@@ -0,0 +1,146 @@
+import { allBlogs, allDocs } from 'content-collections'
+
+import type { SearchContentType } from '../types/search'
+import type { LocaleOptions } from '../types/i18n'
+
+import type {
+  TranslationGroup,
+  TranslationStatus,
+} from '../types/translations'
+
+import { splitLocalizedSlug } from './write-content-index'
+import { defaultLocale, locales } from '@/config/i18n'
+import { siteConfig } from '@/config/site'
+
+interface TranslatableContent {
+  title: string
+  slugAsParams: string
+  translationKey: string
+  /** Read from git when the content is built, see `getFileUpdatedAt` */
+  updatedAt?: string
+  _meta: { filePath: string }
+}
+
+// Content generated on Windows keeps backslashes in its paths
+function getFilePath(content: TranslatableContent) {
+  return content._meta.filePath.replace(/\\/g, '/')
+}
+
+// Translations whose dates are unknown are never reported as stale
+function isOlder(date?: string, than?: string) {
+  return !!date && !!than && new Date(date) < new Date(than)
+}
+
+function getCreateFileHref(
+  type: SearchContentType,
+  locale: LocaleOptions,
+  source: TranslatableContent
+) {
+  const [, ...path] = getFilePath(source).split('/')
+  const fileName = path.pop()
+  const directory = ['apps/content', type, locale, ...path].join('/')
+
+  const template = [
+    '---',
+    `title: ${JSON.stringify(source.title)}`,
+    `translationKey: ${source.translationKey}`,
+    '---',
+    '',
+  ].join('\n')
+
+  const searchParams = new URLSearchParams({
+    filename: fileName ?? '',
+    value: template,
+  })
+
+  // Opens the GitHub editor with the file name and frontmatter filled in
+  return `${siteConfig.links.github.url}/new/main/${directory}?${searchParams}`
+}
+
+function getTranslationGroups(
+  type: SearchContentType,
+  contents: TranslatableContent[]
+) {
+  const groups = new Map<string, TranslatableContent[]>()
+
+  for (const content of contents) {
+    groups.set(content.translationKey, [
+      ...(groups.get(content.translationKey) ?? []),
+      content,
+    ])
+  }
+
+  return Array.from(groups, ([translationKey, contents]) => {
+    const byLocale = new Map(
+      contents.map(content => [
+        splitLocalizedSlug(content.slugAsParams).locale,
+        content,
+      ])
+    )
+
+    const sourceLocale = byLocale.has(defaultLocale)
+      ? defaultLocale
+      : splitLocalizedSlug(contents[0].slugAsParams).locale
+
+    const source = byLocale.get(sourceLocale) ?? contents[0]
+
+    const translations = Object.fromEntries(
+      locales.map((locale): [LocaleOptions, TranslationStatus] => {
+        const content = byLocale.get(locale)
+
+        if (!content) {
+          return [
+            locale,
+            {
+              state: 'missing',
+              href: getCreateFileHref(type, locale, source),
+            },
+          ]
+        }
+
+        const { slug } = splitLocalizedSlug(content.slugAsParams)
+
+        let state: TranslationStatus['state'] = 'up_to_date'
+
+        if (locale === sourceLocale) {
+          state = 'source'
+        } else if (isOlder(content.updatedAt, source.updatedAt)) {
+          state = 'stale'
+        }
+
+        return [
+          locale,
+          {
+            state,
+            href: slug ? `/${type}/${slug}` : `/${type}`,
+            updatedAt: content.updatedAt,
+          },
+        ]
+      })
+    )
+
+    return {
+      type,
+      translationKey,
+      sourceLocale,
+      title: source.title,
+      translations,
+    } satisfies TranslationGroup
+  })
+}
+
+/**
+ * Groups every post and doc, drafts included, by `translationKey` and
+ * compares the last change of each translation with its source, which is
+ * the default locale version when there is one
+ */
+export function getTranslationStatus(): TranslationGroup[] {
+  return [
+    ...getTranslationGroups('blog', allBlogs),
+    ...getTranslationGroups('docs', allDocs),
+  ].sort(
+    (a, b) =>
+      a.type.localeCompare(b.type) ||
+      a.translationKey.localeCompare(b.translationKey)
+  )
+}
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, mock, test } from 'bun:test'
+
+// A doc translated in both locales and one only written in Vietnamese, whose
+// English page is a fallback
+mock.module('content-collections/docsIndex.json', () => ({
+  default: [
+    { slug: 'intro', locale: 'vi', title: 'Giới thiệu', translationKey: 'i' },
+    { slug: 'intro', locale: 'en', title: 'Intro', translationKey: 'i' },
+    { slug: 'cai-dat', locale: 'vi', title: 'Cài đặt', translationKey: 'c' },
+  ],
+}))
+
+mock.module('content-collections/blogsIndex.json', () => ({ default: [] }))
+
+const { getContentAlternates, getLocalizedSlugs } = await import(
+  './translations'
+)
+
+beforeAll(() => {
+  process.env.NEXT_PUBLIC_APP_URL = 'https://example.com'
+})
+
+describe('getContentAlternates', () => {
+  test('links the translations of a document', () => {
+    expect(
+      getContentAlternates({ type: 'docs', slug: 'intro', locale: 'en' })
+    ).toEqual({
+      canonical: 'https://example.com/en/docs/intro',
+      languages: {
+        vi: 'https://example.com/tai-lieu/intro',
+        en: 'https://example.com/en/docs/intro',
+      },
+    })
+  })
+
+  test('points the fallback of a missing translation to the original', () => {
+    // The English page serves the Vietnamese doc, so the metadata of the
+    // fallback is resolved with the locale of the content
+    expect(getLocalizedSlugs('docs', 'en')).toContain('cai-dat')
+
+    expect(
+      getContentAlternates({ type: 'docs', slug: 'cai-dat', locale: 'vi' })
+    ).toEqual({
+      canonical: 'https://example.com/tai-lieu/cai-dat',
+      languages: { vi: 'https://example.com/tai-lieu/cai-dat' },
+    })
+  })
+})
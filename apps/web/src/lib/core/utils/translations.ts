@@ -0,0 +1,143 @@
+import type { LocaleOptions, LocalizedRecord } from '../types/i18n'
+import type { SearchContentType } from '../types/search'
+
+import { blogIndex, docIndex } from './document-index'
+import { defaultLocale } from '@/config/i18n'
+import { getLocalizedUrl } from '@/lib/core/navigation'
+
+function getContentHref(type: SearchContentType, slug: string) {
+  return slug ? `/${type}/${slug}` : `/${type}`
+}
+
+/**
+ * Maps each locale to the path of its version of a document, following the
+ * `translationKey` of the document so translations can live under different
+ * slugs. Locales without a translation are left out
+ */
+export function getContentTranslations({
+  type,
+  slug,
+  locale,
+}: {
+  type: SearchContentType
+  slug: string
+  locale: LocaleOptions
+}): LocalizedRecord {
+  const index = type === 'blog' ? blogIndex : docIndex
+
+  const document = index.find(
+    entry => entry.slug === slug && entry.locale === locale
+  )
+
+  if (!document) {
+    return {}
+  }
+
+  return Object.fromEntries(
+    index
+      .filter(entry => entry.translationKey === document.translationKey)
+      .map(entry => [entry.locale, getContentHref(type, entry.slug)])
+  )
+}
+
+/**
+ * Lists the slugs served under a locale: its own documents, plus the
+ * documents of the default locale without a translation in it, which are
+ * rendered as a fallback
+ */
+export function getLocalizedSlugs(
+  type: SearchContentType,
+  locale: LocaleOptions
+) {
+  const index = type === 'blog' ? blogIndex : docIndex
+
+  const translationKeys = new Set(
+    index
+      .filter(entry => entry.locale === locale)
+      .map(entry => entry.translationKey)
+  )
+
+  const slugs = index
+    .filter(
+      entry =>
+        entry.locale === locale ||
+        (entry.locale === defaultLocale &&
+          !translationKeys.has(entry.translationKey))
+    )
+    .map(entry => entry.slug)
+
+  return Array.from(new Set(slugs))
+}
+
+/**
+ * Absolute URLs of the translations, for `hreflang` alternates. Locales that
+ * only serve the fallback of a missing translation are left out
+ */
+export function getAlternateLanguages(
+  options: Parameters<typeof getContentTranslations>[0]
+): LocalizedRecord {
+  return Object.fromEntries(
+    Object.entries(getContentTranslations(options)).map(([locale, href]) => [
+      locale,
+      getLocalizedUrl(href, locale as LocaleOptions),
+    ])
+  )
+}
+
+/**
+ * Canonical URL and `hreflang` alternates of a document, `locale` being the
+ * one of the content served. The fallback of a missing translation
+ * duplicates the original, so its canonical points search engines there and
+ * the page is consolidated into it rather than left out of the index
+ */
+export function getContentAlternates(
+  options: Parameters<typeof getContentTranslations>[0]
+) {
+  return {
+    canonical: getLocalizedUrl(
+      getContentHref(options.type, options.slug),
+      options.locale
+    ),
+    languages: getAlternateLanguages(options),
+  }
+}
+
+/**
+ * Resolves where the locale switcher should send each locale from the
+ * current pathname. Documents only link to their existing translations,
+ * every other page keeps its pathname
+ */
+export function getLocalizedPathnames({
+  pathname,
+  locale,
+  locales,
+}: {
+  pathname: string
+  locale: LocaleOptions
+  locales: LocaleOptions[]
+}): Partial<Record<LocaleOptions, string | null>> {
+  const [, section, ...slugs] = pathname.split('/')
+  const slug = slugs.join('/')
+
+  const isBlogPost =
+    section === 'blog' && !!slug && !/^(series|tags)\//.test(slug)
+
+  const translations =
+    isBlogPost || section === 'docs'
+      ? getContentTranslations({
+          slug,
+          locale,
+          type: section as SearchContentType,
+        })
+      : {}
+
+  // Unknown documents, like the fallback of a missing translation, are left
+  // to the page to resolve
+  if (!translations[locale]) {
+    return Object.fromEntries(locales.map(locale => [locale, pathname]))
+  }
+
+  return Object.fromEntries(
+    locales.map(locale => [locale, translations[locale] ?? null])
+  )
+}
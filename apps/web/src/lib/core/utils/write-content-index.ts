@@ -0,0 +1,38 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+import type { LocaleOptions } from '../types/i18n'
+
+const contentIndexDirectory = resolve('./.content-collections/generated')
+
+export function splitLocalizedSlug(slugAsParams: string) {
+  const [locale, ...slugs] = slugAsParams.split('/')
+
+  return {
+    locale: locale as LocaleOptions,
+    slug: slugs.join('/'),
+  }
+}
+
+// Writes a lightweight index next to the generated collections, so client
+// components can list or search content without importing the full
+// `allBlogs`/`allDocs`
+export async function writeContentIndex<TEntry>(
+  name:
+    | 'blogs'
+    | 'docs'
+    | 'blogsSearch'
+    | 'docsSearch'
+    | 'blogsRelated'
+    | 'blogsSeries'
+    | 'feeds',
+  entries: TEntry[]
+) {
+  await mkdir(contentIndexDirectory, { recursive: true })
+
+  await writeFile(
+    resolve(contentIndexDirectory, `${name}Index.json`),
+    JSON.stringify(entries),
+    'utf-8'
+  )
+}
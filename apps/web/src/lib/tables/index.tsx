@@ -30,9 +30,15 @@ import { useState, useMemo } from 'react';
 interface DataTableProps<TData> {
   data: TData[];
   columns: ColumnDef<TData>[];
+  /** Keeps the rows with a cell matching this text */
+  globalFilter?: string;
 }
 
-export function DataTable<TData>({ data, columns }: DataTableProps<TData>) {
+export function DataTable<TData>({
+  data,
+  columns,
+  globalFilter,
+}: DataTableProps<TData>) {
   // CRITICAL: Memoize data and columns for performance
   const memoizedData = useMemo(() => data, [data]);
   const memoizedColumns = useMemo(() => columns, [columns]);
@@ -40,6 +46,9 @@ export function DataTable<TData>({ data, columns }: DataTableProps<TData>) {
   const table = useReactTable({
     data: memoizedData,
     columns: memoizedColumns,
+    state: {
+      globalFilter,
+    },
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
@@ -17,6 +17,33 @@ export function formatDate(
   })
 }
 
+const relativeTimeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 60 * 60 * 24 * 365],
+  ['month', 60 * 60 * 24 * 30],
+  ['week', 60 * 60 * 24 * 7],
+  ['day', 60 * 60 * 24],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+]
+
+export function formatRelativeDate(
+  input: string | number,
+  locale: Intl.LocalesArgument = 'en-US',
+  now = Date.now()
+): string {
+  const seconds = (new Date(input).getTime() - now) / 1000
+
+  const [unit, unitSeconds] =
+    relativeTimeUnits.find(([, size]) => Math.abs(seconds) >= size) ??
+    relativeTimeUnits[relativeTimeUnits.length - 1]
+
+  return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(
+    Math.trunc(seconds / unitSeconds),
+    unit
+  )
+}
+
 export function absoluteUrl(path: string) {
   return `${process.env.NEXT_PUBLIC_APP_URL}${path}`
 }
@@ -8,6 +8,10 @@ export default function proxy(request: NextRequest) {
 export const config = {
   matcher: [
     '/((?!api/|_next/|_proxy/|_vercel|_static|favicon.ico|sitemap.xml|blog.xml|blog.json|robots.txt|.*\\..*).*)',
-    '/([\\w-]+)?/(docs|blog)/(.+)',
+    // Next reads the matcher statically, so the localized segments of
+    // `routing.pathnames` are repeated here
+    '/([\\w-]+)?/(docs|blog|tai-lieu|bai-viet)/(.+)',
+    // Feeds have an extension, they are matched for their conditional requests
+    '/([\\w-]+)/feed/(.+)',
   ],
 }
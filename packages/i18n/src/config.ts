@@ -3,13 +3,25 @@ import type { Locale } from './types';
 export type { Locale };
 
 export const i18nConfig = {
-  locales: ['en', 'vi'] as const,
-  defaultLocale: 'en' as const,
+  locales: ['vi', 'en'] as const,
+  defaultLocale: 'vi' as const,
 } as const;
 
 export const locales = i18nConfig.locales;
 export const defaultLocale = i18nConfig.defaultLocale;
 
+// Adding a locale means adding it above, to the records below and a catalog
+// in `messages/`
+export const labels: Record<Locale, string> = {
+  vi: 'Tiếng Việt',
+  en: 'English',
+};
+
+export const dateLocales: Record<Locale, string> = {
+  vi: 'vi-VN',
+  en: 'en-US',
+};
+
 export function isLocale(locale: string): locale is Locale {
   return i18nConfig.locales.includes(locale as Locale);
 }
@@ -1,7 +1,12 @@
-import type { Locale } from './types';
+import type { Locale, Messages } from './types';
 
-export type { Locale };
+export type { Locale, Messages };
 
-export { i18nConfig, locales, defaultLocale, isLocale } from './config';
-
-export { getDictionary, dictionaries, type Dictionary } from './loader';
+export {
+  i18nConfig,
+  locales,
+  defaultLocale,
+  labels,
+  dateLocales,
+  isLocale,
+} from './config';
@@ -1,19 +1,17 @@
 import 'server-only';
 
-import type { Locale } from './types';
-import { i18nConfig } from './config';
+import type { Locale, Messages } from './types';
 
-const dictionaries = {
-  en: () => import('./dictionaries/en.json').then((module) => module.default),
-  vi: () => import('./dictionaries/vi.json').then((module) => module.default),
+const dictionaries: Record<Locale, () => Promise<Messages>> = {
+  vi: () => import('./messages/vi.json').then((module) => module.default),
+  en: () => import('./messages/en.json').then((module) => module.default),
 };
 
 export { dictionaries };
 
-type DictionaryResult = Awaited<ReturnType<typeof dictionaries['en']>>;
-export type { DictionaryResult as Dictionary };
+export type { Messages as Dictionary };
 
-export async function getDictionary(locale: Locale): Promise<DictionaryResult> {
+export async function getDictionary(locale: Locale): Promise<Messages> {
   const loader = dictionaries[locale];
   if (!loader) {
     throw new Error(`No dictionary found for locale: ${locale}`);
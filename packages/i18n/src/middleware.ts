@@ -1,46 +0,0 @@
-import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
-import { match as matchLocale } from '@formatjs/intl-localematcher';
-import Negotiator from 'negotiator';
-import { i18nConfig, type Locale } from './config';
-
-function getLocale(request: NextRequest): Locale {
-  const headers = {
-    'accept-language': request.headers.get('accept-language') ?? '',
-  };
-  const languages = new Negotiator({ headers }).languages();
-  const locale = matchLocale(languages, i18nConfig.locales, i18nConfig.defaultLocale);
-  return locale as Locale;
-}
-
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
-
-  // Skip internal paths
-  if (
-    pathname.startsWith('/_next') ||
-    pathname.startsWith('/api') ||
-    pathname.startsWith('/static') ||
-    pathname.includes('.')
-  ) {
-    return;
-  }
-
-  // Check if locale is already in pathname
-  const pathnameHasLocale = i18nConfig.locales.some(
-    (locale) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
-  );
-
-  if (pathnameHasLocale) {
-    return;
-  }
-
-  // Redirect to localized path
-  const locale = getLocale(request);
-  request.nextUrl.pathname = `/${locale}${pathname}`;
-  return NextResponse.redirect(request.nextUrl);
-}
-
-export const config = {
-  matcher: ['/((?!_next|api|static|.*\\..*).*)'],
-};
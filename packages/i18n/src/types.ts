@@ -1,3 +1,6 @@
 import { i18nConfig } from './config';
 
 export type Locale = (typeof i18nConfig)['locales'][number];
+
+// The default locale catalog is the reference for every other locale
+export type Messages = typeof import('./messages/vi.json');